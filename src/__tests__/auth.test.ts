@@ -0,0 +1,111 @@
+import { RetterAuthStatus, RetterTokenEventType } from '../types'
+import { createClient, destroyClients, getRoutes, signIn } from './helpers'
+
+afterEach(destroyClients)
+
+describe('authentication', () => {
+    it('signs in with a custom token', async () => {
+        const { backend, rio } = createClient()
+
+        const event = await signIn(backend, rio)
+
+        expect(event.authStatus).toBe(RetterAuthStatus.SIGNED_IN)
+        expect(event.uid).toBe('user-1')
+        expect(getRoutes(backend)).toEqual(['TOKEN/auth'])
+    })
+
+    it('reports a rejected custom token as AUTH_FAILED', async () => {
+        const { rio } = createClient()
+        const events: RetterAuthStatus[] = []
+        rio.authStatus.subscribe((e) => events.push(e.authStatus))
+
+        await expect(
+            rio.authenticateWithCustomToken('unknown')
+        ).rejects.toMatchObject({ status: 401 })
+        expect(events).toContain(RetterAuthStatus.AUTH_FAILED)
+    })
+
+    it('refreshes and replays a request rejected with 401', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+        const tokenEvents: RetterTokenEventType[] = []
+        rio.tokenEvents.subscribe((e) => tokenEvents.push(e.type))
+
+        backend.expireAccessTokens()
+        backend.requests.splice(0)
+        const response = await cloudObject.call({
+            method: 'add',
+            body: { text: 'a' },
+        })
+
+        expect(response.data).toEqual({ count: 1 })
+        expect(getRoutes(backend)).toEqual([
+            'CALL/Todo',
+            'TOKEN/refresh',
+            'CALL/Todo',
+        ])
+        expect(tokenEvents).toContain(RetterTokenEventType.TOKEN_REFRESHED)
+    })
+
+    it('shares one refresh between concurrent requests', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+        backend.expireAccessTokens()
+        backend.requests.splice(0)
+        await Promise.all([
+            cloudObject.call({ method: 'add', body: { text: 'a' } }),
+            cloudObject.call({ method: 'add', body: { text: 'b' } }),
+        ])
+
+        const refreshes = getRoutes(backend).filter(
+            (route) => route === 'TOKEN/refresh'
+        )
+        expect(refreshes).toHaveLength(1)
+    })
+
+    it('does not replay a request when refreshing fails', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+        backend.revokeSessions()
+        backend.requests.splice(0)
+        await expect(
+            cloudObject.call({ method: 'add', body: { text: 'a' } })
+        ).rejects.toMatchObject({ status: 401 })
+        const calls = getRoutes(backend).filter(
+            (route) => route === 'CALL/Todo'
+        )
+        expect(calls).toHaveLength(1)
+        expect(getRoutes(backend)).toContain('TOKEN/refresh')
+    })
+
+    it('does not emit auth events after destroy', async () => {
+        const { backend, rio } = createClient()
+        const events: RetterAuthStatus[] = []
+        rio.authStatus.subscribe((e) => events.push(e.authStatus))
+        const pending = signIn(backend, rio)
+
+        await rio.destroy()
+        const emitted = events.length
+        await pending.catch(() => {})
+
+        expect(events).toHaveLength(emitted)
+    })
+
+    it('does not refresh on 403', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+        backend.failNext({ route: 'CALL/Todo', status: 403 })
+        backend.requests.splice(0)
+        await expect(
+            cloudObject.call({ method: 'add', body: { text: 'a' } })
+        ).rejects.toMatchObject({ status: 403 })
+        expect(getRoutes(backend)).toEqual(['CALL/Todo'])
+    })
+})
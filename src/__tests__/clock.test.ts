@@ -0,0 +1,49 @@
+import { RetterServerClock } from '../clock'
+import { MemoryStorage } from '../storage'
+import { createClient, destroyClients, signIn } from './helpers'
+
+afterEach(destroyClients)
+
+describe('RetterServerClock', () => {
+    it('takes the first sample as is and smooths the next ones', () => {
+        const clock = new RetterServerClock(new MemoryStorage(), 'clock')
+        const receivedAt = Date.parse('2024-01-01T00:00:00Z')
+
+        clock.update('Mon, 01 Jan 2024 00:01:00 GMT', receivedAt)
+        expect(clock.getOffset()).toBe(60500)
+
+        clock.update('Mon, 01 Jan 2024 00:01:10 GMT', receivedAt)
+        expect(clock.getOffset()).toBe(62500)
+    })
+
+    it('ignores missing and invalid headers', () => {
+        const clock = new RetterServerClock(new MemoryStorage(), 'clock')
+
+        clock.update(undefined)
+        clock.update('not a date')
+
+        expect(clock.getOffset()).toBe(0)
+    })
+
+    it('starts from the persisted offset', async () => {
+        const storage = new MemoryStorage()
+        await storage.setItem('clock', '5000')
+        const clock = new RetterServerClock(storage, 'clock')
+
+        await clock.load()
+
+        expect(clock.getOffset()).toBe(5000)
+    })
+})
+
+describe('server time', () => {
+    it('follows the clock of the backend', async () => {
+        const { backend, rio } = createClient()
+        backend.clockOffset = 60000
+        await signIn(backend, rio)
+        await rio.getCloudObject({ classId: 'Todo' })
+
+        const skew = rio.serverNow() - Date.now()
+        expect(Math.abs(skew - 60000)).toBeLessThan(2000)
+    })
+})
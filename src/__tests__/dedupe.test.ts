@@ -0,0 +1,105 @@
+import { createClient, destroyClients, getRoutes, signIn } from './helpers'
+
+afterEach(destroyClients)
+
+async function setup(cache = false) {
+    const { backend, rio } = createClient({ cache: { enabled: cache } })
+    await signIn(backend, rio)
+    const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+    backend.requests.splice(0)
+
+    return { backend, rio, cloudObject }
+}
+
+describe('request deduplication', () => {
+    it('shares one request between identical readonly calls', async () => {
+        const { backend, cloudObject } = await setup()
+
+        const [first, second] = await Promise.all([
+            cloudObject.call({ method: 'echo', body: { a: 1, b: 2 } }),
+            cloudObject.call({ method: 'echo', body: { b: 2, a: 1 } }),
+        ])
+
+        expect(getRoutes(backend)).toEqual(['CALL/Todo'])
+        expect(first.data).toEqual({ a: 1, b: 2 })
+        expect(second.data).toEqual({ a: 1, b: 2 })
+    })
+
+    it('keeps the order of arrays', async () => {
+        const { backend, cloudObject } = await setup()
+
+        const [first, second] = await Promise.all([
+            cloudObject.call({ method: 'echo', body: { ids: [1, 2] } }),
+            cloudObject.call({ method: 'echo', body: { ids: [2, 1] } }),
+        ])
+
+        expect(getRoutes(backend)).toHaveLength(2)
+        expect(first.data).toEqual({ ids: [1, 2] })
+        expect(second.data).toEqual({ ids: [2, 1] })
+    })
+
+    it('does not share requests with other response types', async () => {
+        const { backend, cloudObject } = await setup()
+
+        await Promise.all([
+            cloudObject.call({ method: 'echo', body: { a: 1 } }),
+            cloudObject.call({
+                method: 'echo',
+                body: { a: 1 },
+                responseType: 'arraybuffer',
+            }),
+        ])
+
+        expect(getRoutes(backend)).toHaveLength(2)
+    })
+
+    it('does not share mutating calls', async () => {
+        const { backend, cloudObject } = await setup()
+
+        await Promise.all([
+            cloudObject.call({ method: 'add', body: { text: 'a' } }),
+            cloudObject.call({ method: 'add', body: { text: 'a' } }),
+        ])
+
+        expect(getRoutes(backend)).toHaveLength(2)
+    })
+})
+
+describe('response cache', () => {
+    it('serves readonly calls from the cache', async () => {
+        const { backend, cloudObject } = await setup(true)
+
+        await cloudObject.call({ method: 'echo', body: { a: 1, b: 2 } })
+        const cached = await cloudObject.call({
+            method: 'echo',
+            body: { b: 2, a: 1 },
+        })
+
+        expect(getRoutes(backend)).toHaveLength(1)
+        expect(cached.data).toEqual({ a: 1, b: 2 })
+    })
+
+    it('caches bodies with other array orders separately', async () => {
+        const { backend, cloudObject } = await setup(true)
+
+        await cloudObject.call({ method: 'echo', body: { ids: [1, 2] } })
+        const second = await cloudObject.call({
+            method: 'echo',
+            body: { ids: [2, 1] },
+        })
+
+        expect(getRoutes(backend)).toHaveLength(2)
+        expect(second.data).toEqual({ ids: [2, 1] })
+    })
+
+    it('drops cached responses after a mutating call', async () => {
+        const { backend, cloudObject } = await setup(true)
+
+        await cloudObject.call({ method: 'list' })
+        await cloudObject.call({ method: 'add', body: { text: 'a' } })
+        const list = await cloudObject.call({ method: 'list' })
+
+        expect(list.data).toEqual(['a'])
+        expect(getRoutes(backend)).toHaveLength(3)
+    })
+})
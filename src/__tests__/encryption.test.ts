@@ -0,0 +1,98 @@
+import Retter from '../index'
+import { RetterEncryptedStorage, StaticKeyProvider } from '../encryption'
+import { MemoryStorage } from '../storage'
+import { RetterDecryptionError } from '../types'
+import { createClient, destroyClients, signIn } from './helpers'
+
+afterEach(destroyClients)
+
+const firstKey = { id: 'k1', key: new Uint8Array(32).fill(1) }
+const secondKey = { id: 'k2', key: new Uint8Array(32).fill(2) }
+
+describe('RetterEncryptedStorage', () => {
+    it('stores values in an envelope', async () => {
+        const storage = new MemoryStorage()
+        const encrypted = new RetterEncryptedStorage(storage, {
+            keyProvider: new StaticKeyProvider([firstKey]),
+        })
+
+        await encrypted.setItem('key', 'secret')
+
+        const stored = JSON.parse((await storage.getItem('key'))!)
+        expect(stored).toMatchObject({ v: 1, alg: 'AES-GCM', kid: 'k1' })
+        expect(stored.data).not.toContain('secret')
+        expect(await encrypted.getItem('key')).toBe('secret')
+    })
+
+    it('encrypts values again with the current key after a rotation', async () => {
+        const storage = new MemoryStorage()
+        await new RetterEncryptedStorage(storage, {
+            keyProvider: new StaticKeyProvider([firstKey]),
+        }).setItem('key', 'secret')
+
+        const rotated = new RetterEncryptedStorage(storage, {
+            keyProvider: new StaticKeyProvider([secondKey, firstKey]),
+        })
+
+        expect(await rotated.getItem('key')).toBe('secret')
+        expect(JSON.parse((await storage.getItem('key'))!).kid).toBe('k2')
+    })
+
+    it('encrypts plain values when they are read', async () => {
+        const storage = new MemoryStorage()
+        await storage.setItem('key', 'plain')
+        const encrypted = new RetterEncryptedStorage(storage, {
+            keyProvider: new StaticKeyProvider([firstKey]),
+        })
+
+        expect(await encrypted.getItem('key')).toBe('plain')
+        expect(JSON.parse((await storage.getItem('key'))!).kid).toBe('k1')
+    })
+
+    it('fails for unknown keys', async () => {
+        const storage = new MemoryStorage()
+        await new RetterEncryptedStorage(storage, {
+            keyProvider: new StaticKeyProvider([firstKey]),
+        }).setItem('key', 'secret')
+
+        const other = new RetterEncryptedStorage(storage, {
+            keyProvider: new StaticKeyProvider([secondKey]),
+        })
+
+        await expect(other.getItem('key')).rejects.toBeInstanceOf(
+            RetterDecryptionError
+        )
+    })
+})
+
+describe('token encryption', () => {
+    it('keeps tokens encrypted and signs in from them', async () => {
+        const storage = new MemoryStorage()
+        const encryption = { keyProvider: new StaticKeyProvider([firstKey]) }
+        const { backend, rio } = createClient({ storage, encryption })
+        await signIn(backend, rio)
+
+        const config = backend.createClientConfig({ storage, encryption })
+        const projectId = config.projectId
+        const raw = await storage.getItem(`RIO_TOKENS_KEY.${projectId}`)
+        expect(raw).not.toContain('refreshToken')
+
+        await rio.destroy()
+        const restored = Retter.getInstance(config)
+        expect((await restored.getCurrentUser())?.userId).toBe('user-1')
+    })
+
+    it('reads encrypted tokens once', async () => {
+        const keyProvider = new StaticKeyProvider([firstKey])
+        const { backend, rio } = createClient({ encryption: { keyProvider } })
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+        const getKey = jest.spyOn(keyProvider, 'getKey')
+
+        await cloudObject.call({ method: 'add', body: { text: 'a' } })
+        await cloudObject.call({ method: 'list' })
+        await rio.getCurrentUser()
+
+        expect(getKey).not.toHaveBeenCalled()
+    })
+})
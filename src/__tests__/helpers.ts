@@ -0,0 +1,60 @@
+import Retter from '../index'
+import { RetterFakeBackend } from '../testing'
+import { RetterClientConfig } from '../types'
+
+let sequence = 0
+const projectIds: string[] = []
+
+/**
+ * A client of a new fake project, with a `Todo` class.
+ */
+export function createClient(config: Partial<RetterClientConfig> = {}) {
+    const projectId = `test-${++sequence}`
+    projectIds.push(projectId)
+
+    const backend = new RetterFakeBackend({ projectId })
+    backend.registerClass('Todo', {
+        init: ({ instance }) => {
+            instance!.state.public = { items: [] }
+        },
+        methods: {
+            add: ({ instance, body }) => {
+                instance!.state.public.items.push(body.text)
+                return { data: { count: instance!.state.public.items.length } }
+            },
+            list: {
+                readonly: true,
+                handler: ({ instance }) => ({
+                    data: instance!.state.public.items,
+                }),
+            },
+            echo: {
+                readonly: true,
+                handler: ({ body }) => ({ data: body }),
+            },
+        },
+    })
+
+    const rio = Retter.getInstance(backend.createClientConfig(config))
+    return { backend, rio }
+}
+
+export async function signIn(backend: RetterFakeBackend, rio: Retter) {
+    return await rio.authenticateWithCustomToken(
+        backend.createCustomToken({ userId: 'user-1', identity: 'user' })
+    )
+}
+
+/**
+ * Routes served so far, e.g. `TOKEN/auth` or `CALL/Todo`.
+ */
+export function getRoutes(backend: RetterFakeBackend): string[] {
+    return backend.requests.map((request) =>
+        request.path.split('/').slice(1, 3).join('/')
+    )
+}
+
+export async function destroyClients(): Promise<void> {
+    const ids = projectIds.splice(0)
+    for (const projectId of ids) await Retter.removeInstance(projectId)
+}
@@ -0,0 +1,117 @@
+import { RetterCancelledError } from '../types'
+import { createClient, destroyClients, getRoutes, signIn } from './helpers'
+
+afterEach(destroyClients)
+
+describe('batch', () => {
+    it('settles every call in order', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+        const progress: number[] = []
+
+        backend.failNext({ route: 'CALL/Todo', status: 400 })
+        const results = await rio.batch(
+            [
+                {
+                    classId: 'Todo',
+                    instanceId: cloudObject.instanceId,
+                    method: 'add',
+                    body: { text: 'a' },
+                },
+                {
+                    classId: 'Todo',
+                    instanceId: cloudObject.instanceId,
+                    method: 'add',
+                    body: { text: 'b' },
+                },
+            ],
+            {
+                concurrency: 1,
+                onProgress: ({ completed }) => progress.push(completed),
+            }
+        )
+
+        expect(results.map((r) => r.status)).toEqual(['rejected', 'fulfilled'])
+        expect(progress).toEqual([1, 2])
+    })
+
+    it('skips remaining calls after an error when asked', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+        const call = {
+            classId: 'Todo',
+            instanceId: cloudObject.instanceId,
+            method: 'add',
+            body: { text: 'a' },
+        }
+
+        backend.failNext({ route: 'CALL/Todo', status: 400 })
+        backend.requests.splice(0)
+        const results = await rio.batch([call, call], {
+            concurrency: 1,
+            stopOnError: true,
+        })
+
+        expect(getRoutes(backend)).toHaveLength(1)
+        expect(results[1]).toMatchObject({ status: 'rejected' })
+        expect((results[1] as any).reason).toBeInstanceOf(RetterCancelledError)
+    })
+
+    it('drops cached responses of mutated instances', async () => {
+        const { backend, rio } = createClient({ cache: { enabled: true } })
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+        await cloudObject.call({ method: 'list' })
+        await rio.batch([
+            {
+                classId: 'Todo',
+                instanceId: cloudObject.instanceId,
+                method: 'add',
+                body: { text: 'a' },
+            },
+        ])
+        const list = await cloudObject.call({ method: 'list' })
+
+        expect(list.data).toEqual(['a'])
+    })
+})
+
+describe('instance pagination', () => {
+    async function setup() {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        for (const id of ['a', 'b', 'c', 'd', 'e'])
+            backend.setInstance('Todo', id)
+
+        return { backend, rio }
+    }
+
+    it('lists instances page by page', async () => {
+        const { rio } = await setup()
+
+        const first = await rio.listInstancesPage('Todo', { limit: 2 })
+        const second = await rio.listInstancesPage('Todo', {
+            limit: 2,
+            nextToken: first.nextToken,
+        })
+
+        expect(first.items).toEqual(['a', 'b'])
+        expect(second.items).toEqual(['c', 'd'])
+        expect(second.nextToken).toBeDefined()
+    })
+
+    it('iterates all instances', async () => {
+        const { backend, rio } = await setup()
+        backend.requests.splice(0)
+
+        const ids: string[] = []
+        for await (const id of rio.iterateInstances('Todo', { limit: 2 }))
+            ids.push(id)
+
+        expect(ids).toEqual(['a', 'b', 'c', 'd', 'e'])
+        expect(getRoutes(backend)).toHaveLength(3)
+    })
+})
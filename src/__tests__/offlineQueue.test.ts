@@ -0,0 +1,76 @@
+import { createClient, destroyClients, getRoutes, signIn } from './helpers'
+
+afterEach(destroyClients)
+
+async function setup() {
+    const { backend, rio } = createClient({ offlineQueue: { enabled: true } })
+    await signIn(backend, rio)
+    const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+    return { backend, rio, cloudObject }
+}
+
+describe('offline queue', () => {
+    it('queues mutating calls that failed with a network error', async () => {
+        const { backend, rio, cloudObject } = await setup()
+
+        backend.failNext({ route: 'CALL/Todo', network: true })
+        await expect(
+            cloudObject.call({ method: 'add', body: { text: 'a' } })
+        ).rejects.toMatchObject({ queued: true })
+        expect(rio.offlineQueue!.pendingCount).toBe(1)
+
+        backend.requests.splice(0)
+        await rio.offlineQueue!.flush()
+        expect(rio.offlineQueue!.pendingCount).toBe(0)
+        expect(getRoutes(backend)).toEqual(['CALL/Todo'])
+    })
+
+    it('does not queue readonly calls', async () => {
+        const { backend, rio, cloudObject } = await setup()
+
+        backend.failNext({ route: 'CALL/Todo', network: true })
+        const error = await cloudObject.call({ method: 'list' }).catch((e) => e)
+
+        expect(error.queued).toBeUndefined()
+        expect(rio.offlineQueue!.pendingCount).toBe(0)
+    })
+
+    it('does not queue calls that opted out', async () => {
+        const { backend, rio, cloudObject } = await setup()
+
+        backend.failNext({ route: 'CALL/Todo', network: true })
+        await expect(
+            cloudObject.call({
+                method: 'add',
+                body: { text: 'a' },
+                queueOffline: false,
+            })
+        ).rejects.toBeDefined()
+        expect(rio.offlineQueue!.pendingCount).toBe(0)
+    })
+
+    it('queues calls of unknown methods only when asked', async () => {
+        const { backend, rio, cloudObject } = await setup()
+        cloudObject.dispose()
+        const local = await rio.getCloudObject({
+            classId: 'Todo',
+            instanceId: cloudObject.instanceId,
+        })
+
+        backend.failNext({ route: 'CALL/Todo', network: true, count: 2 })
+        await expect(
+            local.call({ method: 'add', body: { text: 'a' } })
+        ).rejects.toBeDefined()
+        expect(rio.offlineQueue!.pendingCount).toBe(0)
+
+        await expect(
+            local.call({
+                method: 'add',
+                body: { text: 'a' },
+                queueOffline: true,
+            })
+        ).rejects.toMatchObject({ queued: true })
+        expect(rio.offlineQueue!.pendingCount).toBe(1)
+    })
+})
@@ -0,0 +1,114 @@
+import { createElement } from 'react'
+import { act, create, ReactTestRenderer } from 'react-test-renderer'
+import Retter from '../index'
+import {
+    RetterProvider,
+    useAuthStatus,
+    useCall,
+    useCloudObject,
+} from '../react'
+import { RetterCloudObjectConfig } from '../types'
+import { createClient, destroyClients, getRoutes, signIn } from './helpers'
+
+;(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true
+
+afterEach(destroyClients)
+
+function render(rio: Retter, hook: () => any) {
+    const result: { current?: any } = {}
+    const Probe = () => {
+        result.current = hook()
+        return null
+    }
+
+    let renderer: ReactTestRenderer
+    act(() => {
+        renderer = create(
+            createElement(RetterProvider, { client: rio }, createElement(Probe))
+        )
+    })
+
+    return { result, unmount: () => act(() => renderer.unmount()) }
+}
+
+async function settle() {
+    await act(() => new Promise((resolve) => setTimeout(resolve, 20)))
+}
+
+describe('react hooks', () => {
+    it('starts with the current auth status', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+
+        const { result } = render(rio, () => useAuthStatus())
+
+        expect(result.current).toMatchObject({ uid: 'user-1' })
+    })
+
+    it('fetches a cloud object once on mount', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        backend.requests.splice(0)
+
+        const config: RetterCloudObjectConfig = { classId: 'Todo' }
+        const { result } = render(rio, () => useCloudObject(config))
+        await settle()
+
+        expect(result.current.cloudObject).toBeDefined()
+        expect(getRoutes(backend)).toEqual(['INSTANCE/Todo'])
+    })
+
+    it('does not fetch again after a failed sign in', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        backend.requests.splice(0)
+
+        const config: RetterCloudObjectConfig = { classId: 'Todo' }
+        render(rio, () => useCloudObject(config))
+        await settle()
+        await act(async () => {
+            await rio.authenticateWithCustomToken('unknown').catch(() => {})
+        })
+        await settle()
+
+        const routes = getRoutes(backend)
+        expect(
+            routes.filter((route) => route === 'INSTANCE/Todo')
+        ).toHaveLength(1)
+    })
+
+    it('fetches again when another user signs in', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        backend.requests.splice(0)
+
+        const config: RetterCloudObjectConfig = { classId: 'Todo' }
+        render(rio, () => useCloudObject(config))
+        await settle()
+        await act(async () => {
+            await rio.authenticateWithCustomToken(
+                backend.createCustomToken({ userId: 'user-2' })
+            )
+        })
+        await settle()
+
+        const routes = getRoutes(backend)
+        expect(
+            routes.filter((route) => route === 'INSTANCE/Todo')
+        ).toHaveLength(2)
+    })
+
+    it('calls methods of a cloud object', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+        const { result } = render(rio, () => useCall(cloudObject))
+        await act(async () => {
+            await result.current.call({ method: 'add', body: { text: 'a' } })
+        })
+
+        expect(result.current.data).toEqual({ count: 1 })
+        expect(result.current.pending).toBe(false)
+    })
+})
@@ -0,0 +1,152 @@
+import { createClient, destroyClients, getRoutes, signIn } from './helpers'
+
+afterEach(destroyClients)
+
+describe('retries', () => {
+    it('retries retryable statuses', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+        const delays: number[] = []
+        rio.use({
+            onRetry: (context, error, delay) => {
+                delays.push(delay)
+            },
+        })
+
+        backend.failNext({ route: 'CALL/Todo', count: 2 })
+        backend.requests.splice(0)
+        const response = await cloudObject.call({
+            method: 'add',
+            body: { text: 'a' },
+            retryConfig: { delay: 1 },
+        })
+
+        expect(response.data).toEqual({ count: 1 })
+        expect(getRoutes(backend)).toEqual([
+            'CALL/Todo',
+            'CALL/Todo',
+            'CALL/Todo',
+        ])
+        expect(delays).toHaveLength(2)
+    })
+
+    it('gives up after the retry count', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+        backend.failNext({ route: 'CALL/Todo', count: 5 })
+        backend.requests.splice(0)
+        await expect(
+            cloudObject.call({
+                method: 'add',
+                body: { text: 'a' },
+                retryConfig: { delay: 1, count: 2 },
+            })
+        ).rejects.toMatchObject({ status: 570 })
+        expect(getRoutes(backend)).toHaveLength(2)
+    })
+
+    it('does not retry other statuses', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+        backend.failNext({ route: 'CALL/Todo', status: 400 })
+        backend.requests.splice(0)
+        await expect(
+            cloudObject.call({ method: 'add', body: { text: 'a' } })
+        ).rejects.toMatchObject({ status: 400 })
+        expect(getRoutes(backend)).toHaveLength(1)
+    })
+})
+
+describe('failover', () => {
+    const hosts = ['a.example.com', 'b.example.com']
+
+    it('sends a request to the next host after a network error', async () => {
+        const { backend, rio } = createClient({ hosts })
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+        backend.failNext({ route: 'CALL/Todo', network: true })
+        const response = await cloudObject.call({
+            method: 'add',
+            body: { text: 'a' },
+        })
+
+        expect(response.data).toEqual({ count: 1 })
+        expect(rio.currentHost).toBe('b.example.com')
+    })
+
+    it('fails over gateway errors without a body', async () => {
+        const { backend, rio } = createClient({ hosts })
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+        backend.failNext({ route: 'CALL/Todo', status: 503, data: '' })
+        const response = await cloudObject.call({
+            method: 'add',
+            body: { text: 'a' },
+        })
+
+        expect(response.data).toEqual({ count: 1 })
+        expect(rio.currentHost).toBe('b.example.com')
+    })
+
+    it('does not send a mutating call again after a server error', async () => {
+        const { backend, rio } = createClient({ hosts })
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+        backend.failNext({ route: 'CALL/Todo', status: 500 })
+        backend.requests.splice(0)
+        await expect(
+            cloudObject.call({ method: 'add', body: { text: 'a' } })
+        ).rejects.toMatchObject({ status: 500 })
+        expect(getRoutes(backend)).toEqual(['CALL/Todo'])
+        expect(rio.currentHost).toBe('a.example.com')
+    })
+
+    it('fails over idempotent requests after a server error', async () => {
+        const { backend, rio } = createClient({ hosts })
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+        backend.failNext({ route: 'STATE/Todo', status: 500 })
+        backend.requests.splice(0)
+        const response = await cloudObject.getState()
+
+        expect(response.data.public).toEqual({ items: [] })
+        expect(getRoutes(backend)).toEqual(['STATE/Todo', 'STATE/Todo'])
+    })
+
+    it('does not send a token refresh again after a server error', async () => {
+        const { backend, rio } = createClient({ hosts })
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+        backend.expireAccessTokens()
+        backend.failNext({ route: 'TOKEN/refresh', status: 500 })
+        backend.requests.splice(0)
+        await expect(
+            cloudObject.call({ method: 'add', body: { text: 'a' } })
+        ).rejects.toBeDefined()
+
+        const refreshes = getRoutes(backend).filter(
+            (route) => route === 'TOKEN/refresh'
+        )
+        expect(refreshes).toHaveLength(1)
+    })
+
+    it('does not send an anonymous sign in again after a server error', async () => {
+        const { backend, rio } = createClient({ hosts })
+
+        backend.failNext({ route: 'TOKEN/anonymous', status: 500 })
+        await expect(rio.authenticateAnonymously()).rejects.toMatchObject({
+            status: 500,
+        })
+        expect(getRoutes(backend)).toEqual(['TOKEN/anonymous'])
+    })
+})
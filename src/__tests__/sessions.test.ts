@@ -0,0 +1,100 @@
+import Retter from '../index'
+import { MemoryRealtimeTransport } from '../realtime'
+import { MemoryStorage } from '../storage'
+import { RetterAuthStatus, RetterConfigError } from '../types'
+import { createClient, destroyClients, signIn } from './helpers'
+
+afterEach(destroyClients)
+
+describe('sessions', () => {
+    it('keeps sessions of a project apart', async () => {
+        const { backend, rio } = createClient({ storage: new MemoryStorage() })
+        await signIn(backend, rio)
+
+        const admin = await rio.switchSession('admin')
+        try {
+            await admin.authenticateWithCustomToken(
+                backend.createCustomToken({ userId: 'admin-1' })
+            )
+
+            expect((await rio.getCurrentUser())?.userId).toBe('user-1')
+            expect((await admin.getCurrentUser())?.userId).toBe('admin-1')
+            expect((await rio.listSessions()).sort()).toEqual([
+                'admin',
+                'default',
+            ])
+            expect(await rio.getActiveSession()).toBe('admin')
+        } finally {
+            await admin.destroy()
+        }
+    })
+
+    it('rejects a realtime transport shared between sessions', () => {
+        const { backend, rio } = createClient()
+        const realtimeTransport = new MemoryRealtimeTransport()
+        const config = {
+            ...backend.createClientConfig(),
+            projectId: 'shared-transport',
+            realtimeTransportFactory: undefined,
+            realtimeTransport,
+        }
+
+        const first = Retter.getInstance(config)
+        try {
+            expect(() =>
+                Retter.getInstance({ ...config, session: 'admin' })
+            ).toThrow(RetterConfigError)
+        } finally {
+            first.destroy()
+        }
+        expect(rio.session).toBe('default')
+    })
+})
+
+describe('anonymous sessions', () => {
+    it('upgrades a guest session and keeps cloud objects', async () => {
+        const { backend, rio } = createClient()
+        const guest = await rio.authenticateAnonymously()
+        expect(guest.authStatus).toBe(RetterAuthStatus.SIGNED_IN_ANONYM)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+
+        const event = await rio.upgradeAnonymousSession(
+            backend.createCustomToken({ userId: 'user-1' })
+        )
+
+        expect(event.authStatus).toBe(RetterAuthStatus.SIGNED_IN)
+        expect(event.uid).toBe('user-1')
+        const same = await rio.getCloudObject({
+            classId: 'Todo',
+            instanceId: cloudObject.instanceId,
+        })
+        expect(same.call).toBe(cloudObject.call)
+    })
+
+    it('keeps the guest session when an upgrade fails', async () => {
+        const { rio } = createClient()
+        await rio.authenticateAnonymously()
+        const events: RetterAuthStatus[] = []
+        rio.authStatus.subscribe((e) => events.push(e.authStatus))
+
+        await expect(
+            rio.upgradeAnonymousSession('unknown')
+        ).rejects.toMatchObject({ status: 401 })
+
+        expect(events).toEqual([RetterAuthStatus.SIGNED_IN_ANONYM])
+        expect(rio.currentAuthStatus?.authStatus).toBe(
+            RetterAuthStatus.SIGNED_IN_ANONYM
+        )
+    })
+
+    it('upgrades only guest sessions', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+
+        await expect(
+            rio.upgradeAnonymousSession(
+                backend.createCustomToken({ userId: 'user-2' })
+            )
+        ).rejects.toThrow('Current session is not anonymous.')
+    })
+})
@@ -0,0 +1,188 @@
+import { RetterStateChannel } from '../stateChannel'
+import { RetterOptimisticEventType } from '../types'
+import { createClient, destroyClients, signIn } from './helpers'
+
+afterEach(destroyClients)
+
+function createChannel() {
+    const detach = jest.fn()
+    const attach = jest.fn(() => detach)
+    const channel = new RetterStateChannel<{ [key: string]: any }>(attach)
+
+    return { channel, attach, detach }
+}
+
+describe('RetterStateChannel', () => {
+    it('attaches once for all subscribers and detaches after the last', () => {
+        const { channel, attach, detach } = createChannel()
+
+        const first = channel.subscribe(() => {})
+        const second = channel.subscribe(() => {})
+        expect(attach).toHaveBeenCalledTimes(1)
+
+        first.unsubscribe()
+        first.unsubscribe()
+        expect(detach).not.toHaveBeenCalled()
+
+        second.unsubscribe()
+        expect(detach).toHaveBeenCalledTimes(1)
+        expect(channel.isAttached).toBe(false)
+
+        channel.subscribe(() => {})
+        expect(attach).toHaveBeenCalledTimes(2)
+    })
+
+    it('gives the last value to new subscribers', () => {
+        const { channel } = createChannel()
+        channel.next({ a: 1 })
+
+        const values: any[] = []
+        channel.subscribe((value) => values.push(value))
+
+        expect(values).toEqual([{ a: 1 }])
+    })
+
+    it('closes subscriptions on complete', () => {
+        const { channel, attach, detach } = createChannel()
+        const values: any[] = []
+        const subscription = channel.subscribe((value) => values.push(value))
+
+        channel.complete()
+        subscription.unsubscribe()
+        expect(detach).toHaveBeenCalledTimes(1)
+
+        channel.next({ a: 1 })
+        expect(values).toEqual([])
+
+        const next = channel.subscribe(() => {})
+        expect(attach).toHaveBeenCalledTimes(2)
+        next.unsubscribe()
+        expect(detach).toHaveBeenCalledTimes(2)
+    })
+
+    it('applies layers on top of snapshots in order', () => {
+        const { channel } = createChannel()
+        const values: any[] = []
+        channel.subscribe((value) => values.push(value))
+        channel.next({ count: 1 })
+
+        const first = channel.addLayer((value) => ({ ...value, count: 2 }))
+        channel.addLayer((value) => ({ ...value, count: value.count * 10 }))
+        expect(values[values.length - 1]).toEqual({ count: 20 })
+
+        channel.removeLayer(first)
+        expect(values[values.length - 1]).toEqual({ count: 10 })
+    })
+
+    it('keeps confirmed layers until the next snapshot', () => {
+        jest.useFakeTimers()
+        try {
+            const { channel } = createChannel()
+            const values: any[] = []
+            channel.subscribe((value) => values.push(value))
+            channel.next({ count: 1 })
+
+            const id = channel.addLayer((value) => ({ ...value, count: 2 }))
+            channel.confirmLayer(id, 1000)
+            expect(values[values.length - 1]).toEqual({ count: 2 })
+
+            channel.next({ count: 3 })
+            expect(values[values.length - 1]).toEqual({ count: 3 })
+
+            const late = channel.addLayer((value) => ({ ...value, late: true }))
+            channel.confirmLayer(late, 1000)
+            jest.advanceTimersByTime(1000)
+            expect(values[values.length - 1]).toEqual({ count: 3 })
+        } finally {
+            jest.useRealTimers()
+        }
+    })
+})
+
+describe('optimistic updates', () => {
+    it('shows the update until the call settles', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+        const states: any[] = []
+        cloudObject.state!.public.subscribe((state: any) => states.push(state))
+        const events: RetterOptimisticEventType[] = []
+        rio.optimisticEvents.subscribe((e) => events.push(e.type))
+
+        const call = cloudObject.call({
+            method: 'add',
+            body: { text: 'a' },
+            optimistic: { channel: 'public', patch: { items: ['a'] } },
+        })
+        expect(states[states.length - 1]).toEqual({ items: ['a'] })
+
+        // the snapshot of the call arrives before its response
+        await call
+        expect(states[states.length - 1]).toEqual({ items: ['a'] })
+        expect(events).toEqual([RetterOptimisticEventType.CONFIRMED])
+    })
+
+    it('confirms updates of calls served from the cache', async () => {
+        const { backend, rio } = createClient({ cache: { enabled: true } })
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+        const states: any[] = []
+        cloudObject.state!.public.subscribe((state: any) => states.push(state))
+        const events: RetterOptimisticEventType[] = []
+        rio.optimisticEvents.subscribe((e) => events.push(e.type))
+
+        const optimistic = {
+            channel: 'public' as const,
+            patch: { seen: true },
+            reconcileTimeout: 10,
+        }
+        await cloudObject.call({ method: 'list', optimistic })
+        await cloudObject.call({ method: 'list', optimistic })
+        expect(events).toEqual([
+            RetterOptimisticEventType.CONFIRMED,
+            RetterOptimisticEventType.CONFIRMED,
+        ])
+
+        await new Promise((resolve) => setTimeout(resolve, 20))
+        expect(states[states.length - 1]).toEqual({ items: [] })
+    })
+
+    it('rolls the update back when the call fails', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+        const states: any[] = []
+        cloudObject.state!.public.subscribe((state: any) => states.push(state))
+        const events: RetterOptimisticEventType[] = []
+        rio.optimisticEvents.subscribe((e) => events.push(e.type))
+
+        backend.failNext({ route: 'CALL/Todo', status: 400 })
+        await expect(
+            cloudObject.call({
+                method: 'add',
+                body: { text: 'a' },
+                optimistic: { channel: 'public', patch: { items: ['a'] } },
+            })
+        ).rejects.toMatchObject({ status: 400 })
+
+        expect(states[states.length - 1]).toEqual({ items: [] })
+        expect(events).toEqual([RetterOptimisticEventType.ROLLED_BACK])
+    })
+
+    it('counts state subscribers of a cloud object', async () => {
+        const { backend, rio } = createClient()
+        await signIn(backend, rio)
+        const cloudObject = await rio.getCloudObject({ classId: 'Todo' })
+        const [transport] = backend.realtimeTransports
+        const path = `projects/${transport.config!.projectId}/classes/Todo/instances/${cloudObject.instanceId}`
+
+        const first = cloudObject.state!.public.subscribe(() => {})
+        const second = cloudObject.state!.public.subscribe(() => {})
+        expect(transport.listenerCount(path)).toBe(1)
+
+        first.unsubscribe()
+        expect(transport.listenerCount(path)).toBe(1)
+        second.unsubscribe()
+        expect(transport.listenerCount(path)).toBe(0)
+    })
+})
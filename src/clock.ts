@@ -0,0 +1,118 @@
+import { RetterClockConfig, RetterStorage } from './types'
+
+const DEFAULT_SMOOTHING = 0.2
+const DEFAULT_MAX_JUMP = 60000 // in ms, bigger changes are taken as is
+const PERSIST_THRESHOLD = 1000 // in ms
+const DATE_HEADER_PRECISION = 1000 // in ms
+
+enum RetterClockSource {
+    NONE,
+    STORAGE,
+    TOKEN,
+    RESPONSE,
+}
+
+/**
+ * Tracks the offset between server and device clocks from `Date` headers of
+ * responses. Samples are smoothed, since a header is only precise to the
+ * second and arrives after the response latency. Until the first response,
+ * the persisted offset or the one derived from the access token is used.
+ */
+export class RetterServerClock {
+    private offset = 0 // in ms, server time minus device time
+
+    private source = RetterClockSource.NONE
+
+    private persistedOffset?: number
+
+    private loadPromise: Promise<void> | null = null
+
+    constructor(
+        private storage: RetterStorage,
+        private storageKey: string,
+        private config: RetterClockConfig = {}
+    ) {}
+
+    /**
+     * Server time in ms.
+     */
+    public now(): number {
+        return Date.now() + this.offset
+    }
+
+    public getOffset(): number {
+        return this.offset
+    }
+
+    /**
+     * Adds a sample from the `Date` header of a response.
+     */
+    public update(dateHeader?: string, receivedAt = Date.now()): void {
+        if (!dateHeader) return
+
+        const serverTime = Date.parse(dateHeader)
+        if (isNaN(serverTime)) return
+
+        // header is truncated to the second, the middle of it is closer
+        const sample = serverTime + DATE_HEADER_PRECISION / 2 - receivedAt
+        const maxJump = this.config.maxJump ?? DEFAULT_MAX_JUMP
+
+        if (
+            this.source !== RetterClockSource.RESPONSE ||
+            Math.abs(sample - this.offset) > maxJump
+        ) {
+            this.offset = sample
+        } else {
+            const smoothing = this.config.smoothing ?? DEFAULT_SMOOTHING
+            this.offset += (sample - this.offset) * smoothing
+        }
+
+        this.source = RetterClockSource.RESPONSE
+        this.persist().catch(() => {})
+    }
+
+    /**
+     * Sets the offset from the issue time of a new access token, unless
+     * responses were already sampled.
+     */
+    public seed(offset: number): void {
+        if (this.source === RetterClockSource.RESPONSE) return
+
+        this.offset = offset
+        this.source = RetterClockSource.TOKEN
+    }
+
+    public async load(): Promise<void> {
+        if (!this.loadPromise) {
+            this.loadPromise = (async () => {
+                const stored = await this.storage.getItem(this.storageKey)
+                const offset = stored ? parseFloat(stored) : NaN
+                if (isNaN(offset)) return
+
+                this.persistedOffset = offset
+                if (this.source !== RetterClockSource.NONE) return
+
+                this.offset = offset
+                this.source = RetterClockSource.STORAGE
+            })()
+        }
+
+        await this.loadPromise
+    }
+
+    protected async persist(): Promise<void> {
+        await this.load()
+
+        if (
+            typeof this.persistedOffset !== 'undefined' &&
+            Math.abs(this.offset - this.persistedOffset) < PERSIST_THRESHOLD
+        )
+            return
+
+        this.persistedOffset = this.offset
+        await this.storage.setItem(
+            this.storageKey,
+            String(Math.round(this.offset))
+        )
+    }
+}
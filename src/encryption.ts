@@ -0,0 +1,204 @@
+import { Buffer } from 'buffer'
+import {
+    RetterCipher,
+    RetterConfigError,
+    RetterDecryptionError,
+    RetterEncryptionConfig,
+    RetterEncryptionKey,
+    RetterKeyProvider,
+    RetterStorage,
+} from './types'
+
+const ENVELOPE_VERSION = 1
+const IV_LENGTH = 12 // in bytes, recommended for AES-GCM
+
+interface RetterEnvelope {
+    v: number
+    alg: string
+    kid: string
+    data: string
+}
+
+function getSubtleCrypto(): SubtleCrypto | undefined {
+    return typeof crypto !== 'undefined' ? crypto.subtle : undefined
+}
+
+function parseEnvelope(value: string): RetterEnvelope | undefined {
+    try {
+        const parsed = JSON.parse(value)
+        if (
+            parsed &&
+            typeof parsed.v === 'number' &&
+            typeof parsed.kid === 'string' &&
+            typeof parsed.data === 'string'
+        )
+            return parsed
+    } catch (e) {}
+
+    return undefined
+}
+
+/**
+ * AES-GCM with WebCrypto. A random IV is prepended to every cipher text.
+ */
+export class WebCryptoAesGcmCipher implements RetterCipher {
+    public algorithm = 'AES-GCM'
+
+    public static isSupported(): boolean {
+        return Boolean(getSubtleCrypto())
+    }
+
+    async encrypt(
+        plainText: string,
+        key: RetterEncryptionKey
+    ): Promise<string> {
+        const subtle = this.getSubtle()
+        const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+
+        const encrypted = await subtle.encrypt(
+            { name: 'AES-GCM', iv },
+            await this.importKey(key),
+            Buffer.from(plainText, 'utf8')
+        )
+
+        return Buffer.concat([
+            Buffer.from(iv),
+            Buffer.from(new Uint8Array(encrypted)),
+        ]).toString('base64')
+    }
+
+    async decrypt(
+        cipherText: string,
+        key: RetterEncryptionKey
+    ): Promise<string> {
+        const subtle = this.getSubtle()
+        const bytes = Buffer.from(cipherText, 'base64')
+
+        const decrypted = await subtle.decrypt(
+            { name: 'AES-GCM', iv: bytes.subarray(0, IV_LENGTH) },
+            await this.importKey(key),
+            bytes.subarray(IV_LENGTH)
+        )
+
+        return Buffer.from(new Uint8Array(decrypted)).toString('utf8')
+    }
+
+    protected importKey(key: RetterEncryptionKey): Promise<CryptoKey> {
+        return this.getSubtle().importKey('raw', key.key, 'AES-GCM', false, [
+            'encrypt',
+            'decrypt',
+        ]) as Promise<CryptoKey>
+    }
+
+    protected getSubtle(): SubtleCrypto {
+        const subtle = getSubtleCrypto()
+        if (!subtle)
+            throw new RetterConfigError(
+                'WebCrypto is not available, a cipher must be given.'
+            )
+        return subtle
+    }
+}
+
+/**
+ * Serves keys supplied by the app. The first key is used for new data, the
+ * others are kept to read data encrypted before a rotation.
+ */
+export class StaticKeyProvider implements RetterKeyProvider {
+    constructor(private keys: RetterEncryptionKey[]) {
+        if (keys.length === 0)
+            throw new RetterConfigError('At least one key is required.')
+    }
+
+    async getCurrentKey(): Promise<RetterEncryptionKey> {
+        return this.keys[0]
+    }
+
+    async getKey(id: string): Promise<RetterEncryptionKey | undefined> {
+        return this.keys.find((key) => key.id === id)
+    }
+}
+
+/**
+ * Encrypts values before they are written to the underlying storage. Values
+ * are kept in a versioned envelope with the id of their key. Values written
+ * with an older key, or before encryption was enabled, are encrypted with the
+ * current key when they are read.
+ */
+export class RetterEncryptedStorage implements RetterStorage {
+    private cipher: RetterCipher
+
+    constructor(
+        private storage: RetterStorage,
+        private config: RetterEncryptionConfig
+    ) {
+        if (!config.cipher && !WebCryptoAesGcmCipher.isSupported())
+            throw new RetterConfigError(
+                'WebCrypto is not available, a cipher must be given.'
+            )
+
+        this.cipher = config.cipher ?? new WebCryptoAesGcmCipher()
+    }
+
+    async getItem(key: string): Promise<string | null> {
+        const stored = await this.storage.getItem(key)
+        if (stored === null) return null
+
+        const envelope = parseEnvelope(stored)
+        if (!envelope) {
+            await this.setItem(key, stored)
+            return stored
+        }
+
+        if (
+            envelope.v !== ENVELOPE_VERSION ||
+            envelope.alg !== this.cipher.algorithm
+        )
+            throw new RetterDecryptionError(
+                `Unsupported envelope ${envelope.v}/${envelope.alg}.`
+            )
+
+        const encryptionKey = await this.config.keyProvider.getKey(envelope.kid)
+        if (!encryptionKey)
+            throw new RetterDecryptionError(`Key ${envelope.kid} not found.`)
+
+        let value: string
+        try {
+            value = await this.cipher.decrypt(envelope.data, encryptionKey)
+        } catch (e) {
+            throw new RetterDecryptionError('Value could not be decrypted.', {
+                cause: e,
+            })
+        }
+
+        const currentKey = await this.config.keyProvider.getCurrentKey()
+        if (currentKey.id !== envelope.kid)
+            await this.write(key, value, currentKey)
+
+        return value
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+        const currentKey = await this.config.keyProvider.getCurrentKey()
+        await this.write(key, value, currentKey)
+    }
+
+    async removeItem(key: string): Promise<void> {
+        await this.storage.removeItem(key)
+    }
+
+    protected async write(
+        key: string,
+        value: string,
+        encryptionKey: RetterEncryptionKey
+    ): Promise<void> {
+        const envelope: RetterEnvelope = {
+            v: ENVELOPE_VERSION,
+            alg: this.cipher.algorithm,
+            kid: encryptionKey.id,
+            data: await this.cipher.encrypt(value, encryptionKey),
+        }
+
+        await this.storage.setItem(key, JSON.stringify(envelope))
+    }
+}
@@ -1,11 +1,40 @@
+import axios from 'axios'
 import { Buffer } from 'buffer'
 import uuid from 'react-native-uuid'
-import AsyncStorage from '@react-native-async-storage/async-storage'
+import {
+    RetterAuthError,
+    RetterCallError,
+    RetterCancelledError,
+    RetterError,
+    RetterErrorCode,
+    RetterErrorDetails,
+    RetterNetworkError,
+    RetterStorage,
+    RetterTimeoutError,
+} from './types'
 
 export function base64Encode(str: string): string {
     return Buffer.from(str).toString('base64')
 }
 
+export function base64ToArrayBuffer(str: string): ArrayBuffer {
+    const bytes = Buffer.from(str, 'base64')
+    return bytes.buffer.slice(
+        bytes.byteOffset,
+        bytes.byteOffset + bytes.byteLength
+    ) as ArrayBuffer
+}
+
+/**
+ * Whether the body is sent as is instead of JSON, e.g. files.
+ */
+export function isBinaryBody(body: any): boolean {
+    if (body == null || typeof body !== 'object') return false
+    if (typeof FormData !== 'undefined' && body instanceof FormData) return true
+    if (typeof Blob !== 'undefined' && body instanceof Blob) return true
+    return body instanceof ArrayBuffer || ArrayBuffer.isView(body)
+}
+
 export function sort(data: any): any {
     if (data == null) {
         return data
@@ -23,11 +52,103 @@ export function sort(data: any): any {
     return data
 }
 
-export async function getInstallationId() {
-    const id = await AsyncStorage.getItem('RIO_INSTALLATION_ID')
+function sortKeys(data: any): any {
+    if (Array.isArray(data)) return data.map(sortKeys)
+    if (data === null || typeof data !== 'object') return data
+
+    return Object.keys(data)
+        .sort()
+        .reduce((acc, key) => {
+            acc[key] = sortKeys(data[key])
+            return acc
+        }, {} as Record<string, any>)
+}
+
+/**
+ * Serializes data with sorted keys, without touching the input. Arrays keep
+ * their order, it is part of the data.
+ */
+export function canonicalize(data: any): string {
+    if (typeof data === 'undefined') return 'null'
+    return JSON.stringify(sortKeys(JSON.parse(JSON.stringify(data))))
+}
+
+/**
+ * Waits for the given time. Rejects with a cancellation error as soon as the
+ * signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted)
+            return reject(new RetterCancelledError('Request cancelled.'))
+
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(new RetterCancelledError('Request cancelled.'))
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+
+        signal?.addEventListener('abort', onAbort)
+    })
+}
+
+export function isNetworkError(error: any): boolean {
+    if (error instanceof RetterNetworkError) return true
+    return (
+        Boolean(error) && !error.response && error.message === 'Network Error'
+    )
+}
+
+/**
+ * Converts whatever a request failed with (mostly axios errors) into one of
+ * the SDK errors. `authRequest` marks token endpoints, whose rejections are
+ * reported as auth errors.
+ */
+export function toRetterError(
+    error: any,
+    details: RetterErrorDetails = {},
+    authRequest = false
+): RetterError {
+    if (error instanceof RetterError) return error
+
+    const context: RetterErrorDetails = { ...details, cause: error }
+    const message = error?.message ?? 'Unknown error'
+
+    if (axios.isCancel(error))
+        return new RetterCancelledError('Request cancelled.', context)
+
+    const response = error?.response
+    if (response) {
+        context.status = response.status
+        context.data = response.data
+        context.headers = response.headers
+
+        const serverMessage =
+            typeof response.data?.message === 'string'
+                ? response.data.message
+                : message
+
+        if (authRequest || response.status === 401 || response.status === 403)
+            return new RetterAuthError(serverMessage, context)
+
+        return new RetterCallError(serverMessage, context)
+    }
+
+    if (error?.code === 'ECONNABORTED')
+        return new RetterTimeoutError(message, context)
+    if (isNetworkError(error)) return new RetterNetworkError(message, context)
+
+    return new RetterError(RetterErrorCode.UNKNOWN_ERROR, message, context)
+}
+
+export async function getInstallationId(storage: RetterStorage) {
+    const id = await storage.getItem('RIO_INSTALLATION_ID')
     if (id) return id
 
     const newId = uuid.v4().toString()
-    await AsyncStorage.setItem('RIO_INSTALLATION_ID', newId)
+    await storage.setItem('RIO_INSTALLATION_ID', newId)
     return newId
 }
@@ -0,0 +1,82 @@
+import { RetterRequestContext, RetterRequestHooks } from './types'
+
+const REDACTED = '[REDACTED]'
+const SENSITIVE_KEY = /authorization|token|secret|password/i
+
+export interface RetterDebugLoggerOptions {
+    log?: (message: string, details?: any) => void
+    logBodies?: boolean
+}
+
+function redact(values: { [key: string]: any }): { [key: string]: any } {
+    return Object.keys(values).reduce(
+        (result, key) => {
+            result[key] = SENSITIVE_KEY.test(key) ? REDACTED : values[key]
+            return result
+        },
+        {} as { [key: string]: any }
+    )
+}
+
+function redactBody(body: any): any {
+    if (Array.isArray(body)) return body.map(redactBody)
+    if (!body || typeof body !== 'object') return body
+
+    return Object.keys(body).reduce(
+        (result, key) => {
+            result[key] = SENSITIVE_KEY.test(key)
+                ? REDACTED
+                : redactBody(body[key])
+            return result
+        },
+        {} as { [key: string]: any }
+    )
+}
+
+function describe(context: RetterRequestContext): string {
+    const target = [context.classId, context.instanceId, context.method]
+        .filter(Boolean)
+        .join(':')
+    return `${context.httpMethod.toUpperCase()} ${context.action ?? ''} ${target} #${context.attempt}`
+}
+
+/**
+ * Logs every request, response, error and retry. Authorization headers,
+ * tokens and similar values are redacted.
+ */
+export function createDebugLogger(
+    options: RetterDebugLoggerOptions = {}
+): RetterRequestHooks {
+    const log =
+        options.log ?? ((message, details) => console.log(message, details))
+
+    return {
+        onRequest: (context) => {
+            log(`[Retter] -> ${describe(context)}`, {
+                url: context.url,
+                headers: redact(context.headers),
+                queryStringParams: redact(context.queryStringParams),
+            })
+        },
+        onResponse: (context, response) => {
+            log(
+                `[Retter] <- ${describe(context)} ${response.status} (${context.duration}ms)`,
+                options.logBodies
+                    ? { data: redactBody(response.data) }
+                    : undefined
+            )
+        },
+        onError: (context, error) => {
+            log(
+                `[Retter] x ${describe(context)} ${error.code} (${context.duration}ms)`,
+                { status: error.status, message: error.message }
+            )
+        },
+        onRetry: (context, error, delay) => {
+            log(`[Retter] retrying ${describe(context)} in ${delay}ms`, {
+                code: error.code,
+                status: error.status,
+            })
+        },
+    }
+}
@@ -1,10 +1,14 @@
-import AsyncStorage from '@react-native-async-storage/async-storage'
 import { Observable } from './observable'
 import {
     RetterActions,
     RetterAuthChangedEvent,
+    RetterAuthError,
     RetterAuthStatus,
+    RetterBatchCall,
+    RetterBatchOptions,
+    RetterBatchResult,
     RetterCallResponse,
+    RetterCancelledError,
     RetterClientConfig,
     RetterCloudObject,
     RetterCloudObjectCall,
@@ -13,36 +17,68 @@ import {
     RetterCloudObjectRequest,
     RetterCloudObjectState,
     RetterCloudObjectStaticCall,
+    RetterConfigError,
+    RetterDecryptionError,
+    RetterInstancePage,
+    RetterListInstancesParams,
+    RetterOptimisticEvent,
+    RetterOptimisticEventType,
+    RetterRealtimeTransport,
     RetterRegion,
     RetterRegionConfig,
+    RetterRequestContext,
+    RetterRequestHooks,
+    RetterStorage,
     RetterTokenData,
+    RetterTokenEvent,
+    RetterTokenEventType,
     RetterTokenPayload,
 } from './types'
 import jwtDecode from 'jwt-decode'
-import { FirebaseApp, initializeApp } from 'firebase/app'
-import { doc, Firestore, onSnapshot } from 'firebase/firestore'
-import { initializeFirestore } from 'firebase/firestore'
-import { Auth, getAuth, signInWithCustomToken, signOut } from 'firebase/auth'
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios'
 import { Agent } from 'https'
-import { base64Encode, getInstallationId, sort } from './helpers'
+import {
+    base64Encode,
+    base64ToArrayBuffer,
+    canonicalize,
+    getInstallationId,
+    isBinaryBody,
+    isNetworkError,
+    sleep,
+    sort,
+    toRetterError,
+} from './helpers'
+import { getRetryConfig, getRetryDelay, isRetryableError } from './retry'
+import { AsyncStorageAdapter } from './storage'
+import { RetterOfflineQueue } from './offlineQueue'
+import { RetterTokenRefreshScheduler } from './tokenRefreshScheduler'
+import { RetterStateChannel } from './stateChannel'
+import { FirestoreRealtimeTransport } from './realtime'
+import { RetterResponseCache } from './responseCache'
+import { RetterServerClock } from './clock'
+import { RetterEncryptedStorage } from './encryption'
+import {
+    getRegion,
+    isFailoverError,
+    registerRegion,
+    RetterHostPool,
+} from './regions'
 
 export * from './types'
-
-const DEFAULT_RETRY_DELAY = 50 // in ms
-const DEFAULT_RETRY_COUNT = 3
-const DEFAULT_RETRY_RATE = 1.5
-
-const RetterRegions: RetterRegionConfig[] = [
-    {
-        id: RetterRegion.euWest1,
-        url: 'api.retter.io',
-    },
-    {
-        id: RetterRegion.euWest1Beta,
-        url: 'test-api.retter.io',
-    },
-]
+export * from './storage'
+export * from './offlineQueue'
+export * from './tokenRefreshScheduler'
+export * from './stateChannel'
+export * from './realtime'
+export * from './responseCache'
+export * from './hooks'
+export * from './clock'
+export * from './encryption'
+export { registerRegion, getRegion, RetterHostPool } from './regions'
+
+const DEFAULT_SESSION = 'default'
+const DEFAULT_BATCH_CONCURRENCY = 4
+const DEFAULT_RECONCILE_TIMEOUT = 3000 // in ms
 
 export default class Retter {
     private static instances: Retter[] = []
@@ -53,65 +89,291 @@ export default class Retter {
 
     private cloudObjects: RetterCloudObjectItem[] = []
 
-    private listeners: { [key: string]: any } = {}
+    private listeners: { [key: string]: RetterStateChannel<any> } = {}
 
     private tokenStorageKey?: string
 
+    protected storage: RetterStorage
+
+    protected tokenStorage: RetterStorage
+
+    // last read or written tokens, so a keystore isn't read for every request
+    private tokenDataPromise: Promise<RetterTokenData | undefined> | null = null
+
     private authStatusSubject: Observable<RetterAuthChangedEvent>
 
-    private firebase?: FirebaseApp
+    private currentAuthEvent?: RetterAuthChangedEvent
+
+    private currentUser?: RetterTokenPayload
 
-    private firestore?: Firestore
+    protected realtime: RetterRealtimeTransport
 
-    private firebaseAuth?: Auth
+    private realtimeConnected = false
 
-    private refreshTokenPromise: Promise<any> | null = null
+    private refreshTokenPromise: Promise<RetterTokenData> | null = null
+
+    private tokenEventsSubject: Observable<RetterTokenEvent>
+
+    private optimisticEventsSubject: Observable<RetterOptimisticEvent>
+
+    private tokenRefreshScheduler?: RetterTokenRefreshScheduler
 
     private sslPinningEnabled: boolean = true
 
     protected axiosInstance?: AxiosInstance
 
+    private offlineQueueInstance?: RetterOfflineQueue
+
+    private responseCache?: RetterResponseCache
+
+    private inflightRequests: { [key: string]: Promise<any> | undefined } = {}
+
+    private hooks: RetterRequestHooks[] = []
+
+    private hostPool: RetterHostPool
+
+    private serverClock: RetterServerClock
+
     public static getInstance(config: RetterClientConfig): Retter {
-        const instance = this.instances.find(
-            (instance) => instance.clientConfig?.projectId === config.projectId
-        )
+        const instance = this.findInstance(config.projectId, config.session)
         if (instance) return instance
 
+        // a transport holds one connection, e.g. a firebase app
+        if (
+            config.realtimeTransport &&
+            this.instances.some((i) => i.realtime === config.realtimeTransport)
+        )
+            throw new RetterConfigError(
+                'Realtime transport is used by another session, use realtimeTransportFactory.'
+            )
+
         const newInstance = new Retter(config)
         this.instances.push(newInstance)
         return newInstance
     }
 
+    /**
+     * Destroys the cached instance of the project session, if there is one.
+     */
+    public static async removeInstance(
+        projectId: string,
+        session?: string
+    ): Promise<void> {
+        const instance = this.findInstance(projectId, session)
+        if (instance) await instance.destroy()
+    }
+
+    /**
+     * Adds a region which projects can select with the `region` option, or
+     * replaces a built-in one.
+     */
+    public static registerRegion(config: RetterRegionConfig): void {
+        registerRegion(config)
+    }
+
+    private static findInstance(
+        projectId: string,
+        session?: string
+    ): Retter | undefined {
+        return this.instances.find(
+            (instance) =>
+                instance.clientConfig?.projectId === projectId &&
+                instance.session === (session ?? DEFAULT_SESSION)
+        )
+    }
+
     protected constructor(config: RetterClientConfig) {
-        if (this.initialized) throw new Error('SDK already initialized.')
+        if (this.initialized)
+            throw new RetterConfigError('SDK already initialized.')
         this.initialized = true
         this.clientConfig = config
 
-        this.tokenStorageKey = `RIO_TOKENS_KEY.${config.projectId}`
+        this.tokenStorageKey = this.getStorageKey('RIO_TOKENS_KEY')
+        this.storage = config.storage ?? new AsyncStorageAdapter()
+        this.tokenStorage = config.encryption
+            ? new RetterEncryptedStorage(this.storage, config.encryption)
+            : this.storage
+        this.realtime =
+            config.realtimeTransportFactory?.() ??
+            config.realtimeTransport ??
+            new FirestoreRealtimeTransport()
         if (!this.clientConfig.region)
             this.clientConfig.region = RetterRegion.euWest1
 
-        if (!this.clientConfig.retryConfig) this.clientConfig.retryConfig = {}
-        if (!this.clientConfig.retryConfig.delay)
-            this.clientConfig.retryConfig.delay = DEFAULT_RETRY_DELAY
-        if (!this.clientConfig.retryConfig.count)
-            this.clientConfig.retryConfig.count = DEFAULT_RETRY_COUNT
-        if (!this.clientConfig.retryConfig.rate)
-            this.clientConfig.retryConfig.rate = DEFAULT_RETRY_RATE
+        this.clientConfig.retryConfig = getRetryConfig(
+            this.clientConfig.retryConfig
+        )
+        this.hooks = [...(config.hooks ?? [])]
+        this.hostPool = new RetterHostPool(config.failover?.cooldown)
+        this.serverClock = new RetterServerClock(
+            this.storage,
+            this.getStorageKey('RIO_CLOCK_OFFSET'),
+            config.clock
+        )
+        this.serverClock.load().catch(() => {})
 
         this.authStatusSubject = new Observable<RetterAuthChangedEvent>(
-            () => {}
+            (observer) => {
+                if (this.currentAuthEvent) observer.next(this.currentAuthEvent)
+            }
         )
 
         this.authStatus.setOnFirstSubscription(() => {
             this.initAuth()
         })
 
+        this.tokenEventsSubject = new Observable<RetterTokenEvent>(() => {})
+        this.optimisticEventsSubject = new Observable<RetterOptimisticEvent>(
+            () => {}
+        )
+
+        if (config.tokenRefresh?.enabled) {
+            this.tokenRefreshScheduler = new RetterTokenRefreshScheduler(
+                config.tokenRefresh,
+                () => this.refreshTokenSingleFlight(),
+                () => this.serverNow()
+            )
+        }
+
         this.createAxiosInstance()
         this.initAuth()
+
+        if (config.cache?.enabled) {
+            this.responseCache = new RetterResponseCache(
+                this.storage,
+                this.getStorageKey('RIO_RESPONSE_CACHE'),
+                config.cache
+            )
+        }
+
+        if (config.offlineQueue?.enabled) {
+            this.offlineQueueInstance = new RetterOfflineQueue(
+                this.storage,
+                this.getStorageKey('RIO_OFFLINE_QUEUE'),
+                config.offlineQueue,
+                (item) =>
+                    this.makeAPIRequest(RetterActions.COS_CALL, {
+                        ...item.params,
+                        classId: item.classId,
+                        instanceId: item.instanceId,
+                    })
+            )
+        }
     }
 
+    /**
+     * Releases everything the instance holds: cloud objects, realtime
+     * listeners, realtime connection, timers and the http client. Stored tokens are
+     * kept, so a new instance of the project starts signed in.
+     */
+    public async destroy(): Promise<void> {
+        if (!this.initialized) return
+        this.initialized = false
+
+        Retter.instances = Retter.instances.filter((i) => i !== this)
+
+        this.tokenRefreshScheduler?.stop()
+        this.offlineQueueInstance?.stop()
+
+        await this.clearCloudObjects().catch(() => {})
+
+        this.axiosInstance = undefined
+
+        this.authStatusSubject.complete()
+        this.tokenEventsSubject.complete()
+        this.optimisticEventsSubject.complete()
+    }
+
+    // #region Session
+    public get session(): string {
+        return this.clientConfig?.session ?? DEFAULT_SESSION
+    }
+
+    /**
+     * Keys of the default session are kept as they were before sessions, so
+     * existing installs stay signed in.
+     */
+    protected getStorageKey(prefix: string): string {
+        const key = `${prefix}.${this.clientConfig!.projectId}`
+        return this.session === DEFAULT_SESSION ? key : `${key}.${this.session}`
+    }
+
+    /**
+     * Lists sessions of the project that have stored tokens.
+     */
+    public async listSessions(): Promise<string[]> {
+        const item = await this.storage.getItem(
+            `RIO_SESSIONS.${this.clientConfig!.projectId}`
+        )
+        if (!item) return []
+
+        try {
+            const sessions = JSON.parse(item)
+            return Array.isArray(sessions) ? sessions : []
+        } catch (e) {
+            return []
+        }
+    }
+
+    /**
+     * Returns the instance of another session of the project and remembers it
+     * as the active session.
+     */
+    public async switchSession(session: string): Promise<Retter> {
+        const instance = Retter.getInstance({ ...this.clientConfig!, session })
+        await this.storage.setItem(
+            `RIO_ACTIVE_SESSION.${this.clientConfig!.projectId}`,
+            session
+        )
+        return instance
+    }
+
+    public async getActiveSession(): Promise<string> {
+        const session = await this.storage.getItem(
+            `RIO_ACTIVE_SESSION.${this.clientConfig!.projectId}`
+        )
+        return session ?? DEFAULT_SESSION
+    }
+
+    protected async updateSessionList(stored: boolean): Promise<void> {
+        const sessions = (await this.listSessions()).filter(
+            (session) => session !== this.session
+        )
+        if (stored) sessions.push(this.session)
+
+        await this.storage.setItem(
+            `RIO_SESSIONS.${this.clientConfig!.projectId}`,
+            JSON.stringify(sessions)
+        )
+    }
+
+    // #endregion
+
     // #region Request
+    /**
+     * Adds request lifecycle hooks. Returns a function removing them again.
+     */
+    public use(hooks: RetterRequestHooks): () => void {
+        this.hooks.push(hooks)
+        return () => {
+            this.hooks = this.hooks.filter((h) => h !== hooks)
+        }
+    }
+
+    /**
+     * Calls the hooks one by one. Failing observers must not fail requests,
+     * so errors thrown by them are ignored.
+     */
+    protected async notifyHooks(
+        notify: (hooks: RetterRequestHooks) => void | Promise<void>
+    ): Promise<void> {
+        for (const hooks of [...this.hooks]) {
+            try {
+                await notify(hooks)
+            } catch (e) {}
+        }
+    }
+
     protected createAxiosInstance() {
         const axiosConfig: AxiosRequestConfig = {
             responseType: 'json',
@@ -120,6 +382,7 @@ export default class Retter {
                 'cache-control': `max-age=0`,
             },
             timeout: 30000,
+            adapter: this.clientConfig?.adapter,
         }
 
         if (this.sslPinningEnabled === false) {
@@ -127,93 +390,273 @@ export default class Retter {
         }
 
         this.axiosInstance! = axios.create(axiosConfig)
+
+        // every response, failed ones too, tells the server time
+        this.axiosInstance.interceptors.response.use(
+            (response) => {
+                this.serverClock.update(response.headers?.date)
+                return response
+            },
+            (error) => {
+                this.serverClock.update(error?.response?.headers?.date)
+                return Promise.reject(error)
+            }
+        )
     }
 
+    /**
+     * Current server time in ms, estimated from response headers.
+     */
+    public serverNow(): number {
+        return this.serverClock.now()
+    }
+
+    /**
+     * Sends a request through the retry policy. Identical requests that are
+     * allowed to share a response are coalesced into one in-flight promise.
+     */
     protected async makeAPIRequest<T>(
         action: RetterActions,
-        data: RetterCloudObjectConfig
+        data: RetterCloudObjectConfig,
+        readonly = false
     ): Promise<RetterCallResponse<T>> {
-        const endpoint = this.generateEndpoint(action, data)
-        const tokens = await this.getCurrentTokenData()
+        if (!this.initialized)
+            throw new RetterConfigError('Retter SDK not initialized.')
+
+        if (!this.shouldDedupeRequest(action, data, readonly))
+            return await this.makeRetriedRequest<T>(action, data)
+
+        const key = [
+            action,
+            this.generateEndpoint(action, data),
+            data.httpMethod ?? 'post',
+            canonicalize(data.headers),
+            canonicalize(data.queryStringParams),
+            canonicalize(data.body),
+            data.responseType ?? 'json',
+            data.timeout ?? '',
+        ].join('|')
+
+        const inflight = this.inflightRequests[key]
+        if (inflight) return await inflight
+
+        const promise = this.makeRetriedRequest<T>(action, data)
+        this.inflightRequests[key] = promise
+        try {
+            return await promise
+        } finally {
+            if (this.inflightRequests[key] === promise)
+                delete this.inflightRequests[key]
+        }
+    }
 
-        const now = Math.floor(Date.now() / 1000)
-        const safeNow = now + 30 + (tokens?.diff ?? 0) // add server time diff
-        const accessTokenDecoded = tokens?.accessTokenDecoded
+    protected shouldDedupeRequest(
+        action: RetterActions,
+        data: RetterCloudObjectConfig,
+        readonly: boolean
+    ): boolean {
+        // one caller cancelling must not cancel the others
+        if (data.signal) return false
+        // binary bodies and progress callbacks can't be shared
+        if (isBinaryBody(data.body) || data.bodyEncoding === 'base64')
+            return false
+        if (data.onProgress) return false
+        if (typeof data.dedupe === 'boolean') return data.dedupe
+
+        const config = this.clientConfig!.dedupe
+        if (config?.enabled === false) return false
+        if (config?.allRequests) return true
+
+        return readonly || this.isIdempotentRequest(action, data)
+    }
 
-        if (accessTokenDecoded && accessTokenDecoded.exp < safeNow) {
-            if (this.refreshTokenPromise) {
-                try {
-                    const newTokenData = await this.refreshTokenPromise
-                    if (!newTokenData) {
-                        this.fireAuthStatusChangedEvent({
-                            authStatus: RetterAuthStatus.SIGNED_OUT,
-                        })
-                        throw new Error('Access token is undefined.')
-                    }
-                    const newData = { ...data }
-                    newData.headers = {
-                        ...newData.headers,
-                        Authorization: `Bearer ${newTokenData}`,
-                    }
+    protected async makeRetriedRequest<T>(
+        action: RetterActions,
+        data: RetterCloudObjectConfig
+    ): Promise<RetterCallResponse<T>> {
+        const retryConfig = getRetryConfig(
+            this.clientConfig!.retryConfig,
+            data.retryConfig
+        )
 
-                    return await this.executeRequest(endpoint, newData)
-                } catch (error) {
-                    throw error
-                }
-            }
+        let attempt = 1
+        let delay = retryConfig.delay!
+        const startedAt = Date.now()
+        while (true) {
+            if (data.signal?.aborted)
+                throw new RetterCancelledError('Request cancelled.', {
+                    action,
+                    classId: data.classId,
+                    method: data.method,
+                    instanceId: data.instanceId,
+                })
 
-            this.refreshTokenPromise = (async () => {
-                try {
-                    const response = await this.refreshToken()
-                    this.refreshTokenPromise = null
-                    return response.accessToken
-                } catch (error) {
-                    this.refreshTokenPromise = null
+            try {
+                return await this.sendAPIRequest<T>(action, data, attempt)
+            } catch (error: any) {
+                if (
+                    attempt >= retryConfig.count! ||
+                    !isRetryableError(error, retryConfig)
+                )
                     throw error
-                }
-            })()
 
-            try {
-                const newToken = await this.refreshTokenPromise
-                if (!newToken) {
-                    this.fireAuthStatusChangedEvent({
-                        authStatus: RetterAuthStatus.SIGNED_OUT,
-                    })
-                    throw new Error('Access token is undefined.')
-                }
-                const newData = { ...data }
-                newData.headers = {
-                    ...newData.headers,
-                    Authorization: `Bearer ${newToken}`,
+                delay = getRetryDelay(retryConfig, attempt, delay, error)
+                const context: RetterRequestContext = {
+                    action,
+                    classId: data.classId,
+                    method: data.method,
+                    instanceId: data.instanceId,
+                    url: this.generateEndpoint(action, data),
+                    httpMethod: data.httpMethod ?? 'post',
+                    attempt,
+                    headers: { ...data.headers },
+                    queryStringParams: { ...data.queryStringParams },
+                    startedAt,
+                    duration: Date.now() - startedAt,
                 }
-                return await this.executeRequest(endpoint, newData)
-            } catch (error) {
-                throw error
+                await this.notifyHooks((hooks) =>
+                    hooks.onRetry?.(context, error, delay)
+                )
+                await sleep(delay, data.signal)
+                attempt++
             }
-        } else {
-            const newData = { ...data }
-            if (
-                tokens?.accessToken !== 'undefined' &&
-                tokens?.accessToken !== 'null' &&
-                Boolean(tokens?.accessToken) &&
-                tokens?.accessToken
-            ) {
-                newData.headers = {
-                    ...newData.headers,
-                    Authorization: `Bearer ${tokens.accessToken}`,
-                }
-            } else {
+        }
+    }
+
+    protected async sendAPIRequest<T>(
+        action: RetterActions,
+        data: RetterCloudObjectConfig,
+        attempt = 1
+    ): Promise<RetterCallResponse<T>> {
+        const accessToken = await this.getRequestAccessToken(action, data)
+
+        try {
+            return await this.sendAuthorizedRequest<T>(
+                action,
+                data,
+                attempt,
+                accessToken
+            )
+        } catch (error: any) {
+            if (!accessToken || !this.isAuthRejection(error)) throw error
+
+            // token is rejected before its expiry, e.g. revoked or its claims
+            // changed. A failing refresh signs out with AUTH_FAILED.
+            const tokens = await this.getCurrentTokenData()
+            const newToken =
+                tokens?.accessToken && tokens.accessToken !== accessToken
+                    ? tokens.accessToken // already refreshed by another request
+                    : (await this.refreshTokenSingleFlight()).accessToken
+
+            return await this.sendAuthorizedRequest<T>(
+                action,
+                data,
+                attempt,
+                newToken
+            )
+        }
+    }
+
+    /**
+     * Returns the access token to send, refreshed first when it is about to
+     * expire.
+     */
+    protected async getRequestAccessToken(
+        action: RetterActions,
+        data: RetterCloudObjectConfig
+    ): Promise<string | undefined> {
+        const tokens = await this.getCurrentTokenData()
+
+        const safeNow = Math.floor(this.serverNow() / 1000) + 30
+        const accessTokenDecoded = tokens?.accessTokenDecoded
+
+        if (accessTokenDecoded && accessTokenDecoded.exp < safeNow) {
+            const newTokenData = await this.refreshTokenSingleFlight()
+            const newToken = newTokenData?.accessToken
+            if (!newToken) {
                 this.fireAuthStatusChangedEvent({
-                    authStatus: RetterAuthStatus.SIGNED_OUT,
+                    authStatus: RetterAuthStatus.AUTH_FAILED,
+                    message: 'Access token is undefined.',
+                })
+                throw new RetterAuthError('Access token is undefined.', {
+                    action,
+                    classId: data.classId,
+                    method: data.method,
+                    instanceId: data.instanceId,
                 })
             }
-            return await this.executeRequest(endpoint, newData)
+            return newToken
         }
+
+        if (
+            tokens?.accessToken !== 'undefined' &&
+            tokens?.accessToken !== 'null' &&
+            Boolean(tokens?.accessToken) &&
+            tokens?.accessToken
+        ) {
+            return tokens.accessToken
+        }
+
+        return undefined
+    }
+
+    protected async sendAuthorizedRequest<T>(
+        action: RetterActions,
+        data: RetterCloudObjectConfig,
+        attempt: number,
+        accessToken?: string
+    ): Promise<RetterCallResponse<T>> {
+        const newData = { ...data }
+        if (accessToken) {
+            newData.headers = {
+                ...newData.headers,
+                Authorization: `Bearer ${accessToken}`,
+            }
+        }
+
+        return await this.withFailover(
+            (host) =>
+                this.executeRequest(
+                    this.generateEndpoint(action, newData, host),
+                    { ...newData },
+                    action,
+                    attempt
+                ),
+            this.isIdempotentRequest(action, data)
+        )
+    }
+
+    /**
+     * Whether sending the request twice has the same effect as sending it
+     * once. Mutating calls are left to the retry policy.
+     */
+    protected isIdempotentRequest(
+        action: RetterActions,
+        data: RetterCloudObjectConfig
+    ): boolean {
+        if (data.httpMethod === 'get') return true
+        if (action === RetterActions.COS_STATE) return true
+        if (action === RetterActions.COS_LIST) return true
+        // instance lookups without an id or key create a new instance
+        if (action === RetterActions.COS_INSTANCE)
+            return Boolean(data.instanceId || data.key)
+
+        return false
+    }
+
+    /**
+     * Whether the server rejected the access token. A 403 is how cloud
+     * methods deny access, so it doesn't tell anything about the token.
+     */
+    protected isAuthRejection(error: any): boolean {
+        return error instanceof RetterAuthError && error.status === 401
     }
 
     protected async executeRequest(
         url: string,
-        config: RetterCloudObjectConfig
+        config: RetterCloudObjectConfig,
+        action?: RetterActions,
+        attempt = 1
     ): Promise<any> {
         const queryStringParams = { ...config.queryStringParams }
         if (!queryStringParams.__culture)
@@ -221,28 +664,103 @@ export default class Retter {
         if (!queryStringParams.__platform && this.clientConfig?.platform)
             queryStringParams.__platform = this.clientConfig.platform
 
-        if (config.httpMethod === 'get' && config.body) {
+        const headers = { ...config.headers }
+        headers.installationId = await getInstallationId(this.storage)
+
+        if (
+            config.bodyEncoding === 'base64' &&
+            typeof config.body === 'string'
+        ) {
+            config.body = base64ToArrayBuffer(config.body)
+        }
+
+        if (isBinaryBody(config.body)) {
+            const isFormData =
+                typeof FormData !== 'undefined' &&
+                config.body instanceof FormData
+
+            // form data gets its content type with the boundary from the adapter
+            if (!isFormData)
+                headers['Content-Type'] =
+                    config.contentType ?? 'application/octet-stream'
+        } else if (config.httpMethod === 'get' && config.body) {
             const data = base64Encode(JSON.stringify(sort(config.body)))
             delete config.body
             queryStringParams.data = data
             queryStringParams.__isbase64 = 'true'
         }
 
-        const headers = { ...config.headers }
-        headers.installationId = await getInstallationId()
+        const { onProgress } = config
+
+        const context: RetterRequestContext = {
+            action,
+            classId: config.classId,
+            method: config.method,
+            instanceId: config.instanceId,
+            url,
+            httpMethod: config.httpMethod ?? 'post',
+            attempt,
+            headers,
+            queryStringParams,
+            startedAt: Date.now(),
+        }
+        // hooks may add headers or rewrite query params, their errors fail the request
+        for (const hooks of [...this.hooks]) {
+            if (hooks.onRequest) await hooks.onRequest(context)
+        }
+        // retries may still be running after destroy
+        if (!this.axiosInstance)
+            throw new RetterConfigError('Retter SDK not initialized.')
 
         return new Promise((resolve, reject) => {
             this.axiosInstance!({
                 url,
                 method: config.httpMethod ?? 'POST',
-                headers,
-                params: queryStringParams,
+                headers: context.headers,
+                params: context.queryStringParams,
                 data: config.body,
+                signal: config.signal,
+                timeout: config.timeout,
+                responseType: config.responseType,
+                onUploadProgress: onProgress
+                    ? (event: ProgressEvent) =>
+                          onProgress({
+                              direction: 'upload',
+                              loaded: event.loaded,
+                              total: event.lengthComputable
+                                  ? event.total
+                                  : undefined,
+                          })
+                    : undefined,
+                onDownloadProgress: onProgress
+                    ? (event: ProgressEvent) =>
+                          onProgress({
+                              direction: 'download',
+                              loaded: event.loaded,
+                              total: event.lengthComputable
+                                  ? event.total
+                                  : undefined,
+                          })
+                    : undefined,
             })
-                .then((response) => {
+                .then(async (response) => {
+                    context.duration = Date.now() - context.startedAt
+                    await this.notifyHooks((hooks) =>
+                        hooks.onResponse?.(context, response)
+                    )
                     resolve(response)
                 })
-                .catch((error) => {
+                .catch(async (e) => {
+                    const error = toRetterError(e, {
+                        action,
+                        classId: config.classId,
+                        method: config.method,
+                        instanceId: config.instanceId,
+                    })
+                    context.duration = Date.now() - context.startedAt
+                    await this.notifyHooks((hooks) =>
+                        hooks.onError?.(context, error)
+                    )
                     reject(error)
                 })
         })
@@ -250,7 +768,8 @@ export default class Retter {
 
     protected generateEndpoint(
         action: RetterActions,
-        data: RetterCloudObjectConfig
+        data: RetterCloudObjectConfig,
+        host?: string
     ): string {
         const prefixes: Record<RetterActions, string> = {
             [RetterActions.COS_CALL]: 'CALL',
@@ -288,63 +807,109 @@ export default class Retter {
             if (data.pathParams) url += `/${data.pathParams}`
         }
 
-        return this.buildUrl(this.clientConfig!.projectId, url)
+        return this.buildUrl(this.clientConfig!.projectId, url, host)
     }
 
-    protected buildUrl(projectId: string, path: string) {
-        const prefix = this.clientConfig?.url
-            ? `${this.clientConfig.url}`
-            : `${projectId}.${
-                  RetterRegions.find(
-                      (region) => region.id === this.clientConfig?.region
-                  )?.url
-              }`
+    protected buildUrl(projectId: string, path: string, host?: string) {
+        const prefix = host ?? this.getHosts(projectId)[0]
 
         return `https://${prefix}/${this.clientConfig?.projectId}${path}`
     }
 
     // #endregion
 
-    // #region Firebase
-    protected async initFirebase(tokenData?: RetterTokenData) {
-        const firebaseConfig = tokenData?.firebase
-        if (!firebaseConfig || this.firebase) return
+    // #region Hosts
+    /**
+     * Host the next request will be sent to.
+     */
+    public get currentHost(): string | undefined {
+        return this.hostPool.select(this.getHosts())
+    }
 
-        this.firebase = initializeApp(
-            {
-                apiKey: firebaseConfig.apiKey,
-                authDomain: firebaseConfig.projectId + '.firebaseapp.com',
-                projectId: firebaseConfig.projectId,
-            },
-            this.clientConfig!.projectId
-        )
+    protected getHosts(projectId = this.clientConfig!.projectId): string[] {
+        const { hosts, url, region } = this.clientConfig!
+        if (hosts?.length) return hosts
+        if (url) return [url]
+
+        const regionConfig = getRegion(region ?? RetterRegion.euWest1)
+        if (!regionConfig)
+            throw new RetterConfigError(`Region ${region} is not registered.`)
+
+        return [`${projectId}.${regionConfig.url}`]
+    }
+
+    /**
+     * Sends the request to the current host, and to the next ones while it
+     * fails with a network error or a gateway error. Other 5xx responses are
+     * failed over only for idempotent requests. Failed hosts are skipped by
+     * later requests until their cooldown ends.
+     */
+    protected async withFailover<T>(
+        request: (host: string) => Promise<T>,
+        idempotent = true
+    ): Promise<T> {
+        const hosts = this.getHosts()
+        const tried: string[] = []
+
+        while (true) {
+            const host = this.hostPool.select(hosts, tried)!
+            tried.push(host)
+
+            try {
+                const response = await request(host)
+                this.hostPool.reportSuccess(host)
+                return response
+            } catch (error) {
+                if (!isFailoverError(error, idempotent)) throw error
+
+                this.hostPool.reportFailure(host)
+                if (tried.length >= hosts.length) throw error
+            }
+        }
+    }
+
+    // #endregion
 
-        this.firestore = initializeFirestore(this.firebase!, {
-            experimentalForceLongPolling: true,
+    // #region Realtime
+    protected async initRealtime(tokenData?: RetterTokenData) {
+        const firebaseConfig = tokenData?.firebase
+        if (!firebaseConfig || this.realtimeConnected) return
+        this.realtimeConnected = true
+
+        await this.realtime.connect({
+            appName:
+                this.session === DEFAULT_SESSION
+                    ? this.clientConfig!.projectId
+                    : `${this.clientConfig!.projectId}.${this.session}`,
+            apiKey: firebaseConfig.apiKey,
+            projectId: firebaseConfig.projectId,
         })
-        this.firebaseAuth = getAuth(this.firebase!)
 
-        await signInWithCustomToken(
-            this.firebaseAuth!,
-            firebaseConfig.customToken
-        ).catch(() => {})
+        await this.realtime
+            .authenticate(firebaseConfig.customToken)
+            .catch(() => {})
     }
 
-    protected clearFirebase() {
-        this.firebase = undefined
-        this.firestore = undefined
-        this.firebaseAuth = undefined
+    protected async renewRealtimeSession(tokenData: RetterTokenData) {
+        const customToken = tokenData.firebase?.customToken
+        if (!this.realtimeConnected || !customToken) return
+
+        await this.realtime.authenticate(customToken).catch(() => {})
     }
 
-    protected getFirebaseListener(
-        queue: any,
-        collection: string,
-        documentId: string
-    ): () => void {
-        const document = doc(this.firestore!, collection, documentId)
+    protected async clearRealtime() {
+        if (!this.realtimeConnected) return
+        this.realtimeConnected = false
 
-        return onSnapshot(document, (doc) => {
-            const data = Object.assign({}, doc.data())
+        await this.realtime.disconnect().catch(() => {})
+    }
+
+    protected getRealtimeListener(
+        queue: { next: (data: any) => void },
+        path: string
+    ): () => void {
+        return this.realtime.subscribe(path, (document) => {
+            const data = Object.assign({}, document)
             for (const key of Object.keys(data)) {
                 if (key.startsWith('__')) delete data[key]
             }
@@ -352,69 +917,62 @@ export default class Retter {
         })
     }
 
-    protected async getFirebaseState(config: RetterCloudObjectConfig) {
-        if (!this.clientConfig) throw new Error('Client config not found.')
+    protected getListenerPrefix(config: RetterCloudObjectConfig): string {
+        return `${this.clientConfig!.projectId}_${config.classId}_${config.instanceId}`
+    }
+
+    protected async getRealtimeState(config: RetterCloudObjectConfig) {
+        if (!this.clientConfig)
+            throw new RetterConfigError('Client config not found.')
 
         const { projectId } = this.clientConfig
 
-        const user = await this.getCurrentUser()
+        if (!this.currentUser) this.currentUser = await this.getCurrentUser()
 
         const unsubscribers: (() => void)[] = []
 
-        const observables = {
-            role: new Observable<any>(() => {}),
-            user: new Observable<any>(() => {}),
-            public: new Observable<any>(() => {}),
-        }
+        const listenerPrefix = this.getListenerPrefix(config)
+        const instancePath = `/projects/${projectId}/classes/${config.classId}/instances`
+
+        const getChannel = (
+            name: string,
+            collection: string,
+            documentId: () => string
+        ) => {
+            const key = `${listenerPrefix}_${name}`
+            if (!this.listeners[key]) {
+                this.listeners[key] = new RetterStateChannel<any>((channel) =>
+                    this.getRealtimeListener(
+                        channel,
+                        `${collection}/${documentId()}`
+                    )
+                )
+            }
 
-        const listenerPrefix = `${projectId}_${config.classId}_${config.instanceId}`
+            const channel = this.listeners[key]
+            return {
+                observable: channel.observable,
+                subscribe: (callback: (data: any) => void) =>
+                    channel.subscribe(callback),
+            }
+        }
 
         const state = {
-            role: {
-                observable: observables.role,
-                subscribe: (callback: (data: any) => void) => {
-                    if (!this.listeners[`${listenerPrefix}_role`]) {
-                        const listener = this.getFirebaseListener(
-                            observables.role,
-                            `/projects/${projectId}/classes/${config.classId}/instances/${config.instanceId}/roleState`,
-                            user!.identity!
-                        )
-                        this.listeners[`${listenerPrefix}_role`] = listener
-                    }
-
-                    return observables.role.subscribe(callback)
-                },
-            },
-            user: {
-                observable: observables.user,
-                subscribe: (callback: (data: any) => void) => {
-                    if (!this.listeners[`${listenerPrefix}_user`]) {
-                        const listener = this.getFirebaseListener(
-                            observables.user,
-                            `/projects/${projectId}/classes/${config.classId}/instances/${config.instanceId}/userState`,
-                            user!.userId!
-                        )
-                        this.listeners[`${listenerPrefix}_user`] = listener
-                    }
-
-                    return observables.user.subscribe(callback)
-                },
-            },
-            public: {
-                observable: observables.public,
-                subscribe: (callback: (data: any) => void) => {
-                    if (!this.listeners[`${listenerPrefix}_public`]) {
-                        const listener = this.getFirebaseListener(
-                            observables.public,
-                            `/projects/${projectId}/classes/${config.classId}/instances`,
-                            config.instanceId!
-                        )
-                        this.listeners[`${listenerPrefix}_public`] = listener
-                    }
-
-                    return observables.public.subscribe(callback)
-                },
-            },
+            role: getChannel(
+                'role',
+                `${instancePath}/${config.instanceId}/roleState`,
+                () => this.currentUser!.identity!
+            ),
+            user: getChannel(
+                'user',
+                `${instancePath}/${config.instanceId}/userState`,
+                () => this.currentUser!.userId!
+            ),
+            public: getChannel(
+                'public',
+                instancePath,
+                () => config.instanceId!
+            ),
         }
 
         return { state, unsubscribers }
@@ -425,7 +983,8 @@ export default class Retter {
     public async getCloudObject(
         config: RetterCloudObjectConfig
     ): Promise<RetterCloudObject> {
-        if (!this.initialized) throw new Error('Retter SDK not initialized.')
+        if (!this.initialized)
+            throw new RetterConfigError('Retter SDK not initialized.')
 
         let instance
         if (!config.instanceId && !config.useLocal) {
@@ -446,60 +1005,118 @@ export default class Retter {
             return seekedObject
         }
 
-        const { state } = await this.getFirebaseState(config)
+        const { state } = await this.getRealtimeState(config)
 
         const call = async <T>(
             params: RetterCloudObjectCall
         ): Promise<RetterCallResponse<T>> => {
-            params.retryConfig = {
-                ...this.clientConfig!.retryConfig,
-                ...params.retryConfig,
-            }
+            // methods are unknown when the instance wasn't fetched, callers
+            // can mark the call readonly themselves
+            const method = retVal.methods.find((m) => m.name === params.method)
+            const readonly =
+                params.readonly ??
+                (method ? Boolean(method.readonly) : undefined)
+
+            const request = () =>
+                this.makeAPIRequest<T>(
+                    RetterActions.COS_CALL,
+                    {
+                        ...params,
+                        classId: config.classId,
+                        instanceId: config.instanceId,
+                    },
+                    readonly
+                )
+
+            const optimistic = this.applyOptimisticUpdate(config, params)
+
+            const cachePolicy =
+                readonly &&
+                params.cache !== false &&
+                this.isCacheableRequest(params)
+                    ? this.responseCache?.getPolicy(params.method)
+                    : undefined
+
             try {
-                return await this.makeAPIRequest(RetterActions.COS_CALL, {
-                    ...params,
-                    classId: config.classId,
-                    instanceId: config.instanceId,
-                })
-            } catch (error: any) {
-                --params.retryConfig.count!
-                params.retryConfig.delay! *= params.retryConfig.rate!
+                const response = cachePolicy
+                    ? await this.responseCache!.fetch(
+                          RetterResponseCache.getKey(
+                              config.classId,
+                              config.instanceId,
+                              params.method,
+                              params.body,
+                              params.queryStringParams
+                          ),
+                          cachePolicy,
+                          request
+                      )
+                    : await request()
+                optimistic?.confirm()
                 if (
-                    error.response &&
-                    error.response.status === 570 &&
-                    params.retryConfig.count! > 0
+                    !readonly &&
+                    this.clientConfig!.cache?.invalidateOnMutation !== false
                 ) {
-                    await new Promise((r) =>
-                        setTimeout(r, params.retryConfig!.delay!)
+                    await this.responseCache?.invalidateInstance(
+                        config.classId,
+                        config.instanceId!
                     )
-                    return await call(params)
-                } else {
-                    throw error
                 }
+                return response
+            } catch (error: any) {
+                optimistic?.rollback(error)
+                if (this.shouldQueueCall(error, params, readonly)) {
+                    const item = await this.offlineQueueInstance!.enqueue(
+                        config.classId,
+                        config.instanceId!,
+                        params
+                    )
+                    error.queued = true
+                    error.queueItemId = item.id
+                }
+                throw error
             }
         }
 
         const getState = async (
             params?: RetterCloudObjectRequest
         ): Promise<RetterCallResponse<RetterCloudObjectState>> => {
-            return await this.makeAPIRequest<RetterCloudObjectState>(
-                RetterActions.COS_STATE,
-                {
-                    ...params,
-                    classId: config.classId,
-                    instanceId: config.instanceId,
-                }
+            const request = () =>
+                this.makeAPIRequest<RetterCloudObjectState>(
+                    RetterActions.COS_STATE,
+                    {
+                        ...params,
+                        classId: config.classId,
+                        instanceId: config.instanceId,
+                    }
+                )
+
+            const cachePolicy =
+                params?.cache !== false && this.isCacheableRequest(params)
+                    ? this.responseCache?.getPolicy('__state')
+                    : undefined
+            if (!cachePolicy) return await request()
+
+            const key = RetterResponseCache.getKey(
+                config.classId,
+                config.instanceId,
+                '__state',
+                params?.body,
+                params?.queryStringParams
             )
+            return await this.responseCache!.fetch(key, cachePolicy, request)
         }
 
-        const listInstances = async (
-            params?: RetterCloudObjectRequest
-        ): Promise<string[]> => {
-            const { data } = await this.makeAPIRequest<{
-                instanceIds: string[]
-            }>(RetterActions.COS_LIST, { ...params, classId: config.classId })
+        const listInstances = (params?: RetterListInstancesParams) =>
+            this.listInstances(config.classId, params)
 
-            return data.instanceIds
+        const listInstancesPage = (params?: RetterListInstancesParams) =>
+            this.listInstancesPage(config.classId, params)
+
+        const iterateInstances = (params?: RetterListInstancesParams) =>
+            this.iterateInstances(config.classId, params)
+
+        const dispose = () => {
+            this.disposeCloudObject(config)
         }
 
         const retVal = {
@@ -507,6 +1124,9 @@ export default class Retter {
             state,
             getState,
             listInstances,
+            listInstancesPage,
+            iterateInstances,
+            dispose,
             methods: instance?.methods ?? [],
             response: instance?.response ?? null,
             instanceId: config.instanceId!,
@@ -514,29 +1134,210 @@ export default class Retter {
             isNewInstance: instance?.newInstance ?? false,
         }
 
+        // a concurrent lookup of the same instance may have finished first
+        const cachedObject = this.cloudObjects.find(
+            (object) =>
+                object.config.classId === config.classId &&
+                object.config.instanceId === config.instanceId
+        )
+        if (cachedObject) return cachedObject
+
         this.cloudObjects.push({ ...retVal, config, unsubscribers: [] })
         return retVal
     }
 
-    protected async clearCloudObjects() {
-        // clear listeners
-        const listeners = Object.values(this.listeners)
-        if (listeners.length > 0) {
-            listeners.map((i) => i())
-
-            this.cloudObjects.map((i) => {
-                i.state?.role.queue?.complete()
-                i.state?.user.queue?.complete()
-                i.state?.public.queue?.complete()
+    public get optimisticEvents(): Observable<RetterOptimisticEvent> {
+        return this.optimisticEventsSubject
+    }
+
+    /**
+     * Applies the optimistic update of a call to its state channel. Returns
+     * functions to settle it once the call finishes.
+     */
+    protected applyOptimisticUpdate(
+        config: RetterCloudObjectConfig,
+        params: RetterCloudObjectCall
+    ) {
+        const update = params.optimistic
+        if (!update) return undefined
+
+        const channel =
+            this.listeners[
+                `${this.getListenerPrefix(config)}_${update.channel}`
+            ]
+        if (!channel) return undefined
+
+        // a patch gives the same state when the snapshot already has it
+        const id = channel.addLayer((state) => ({ ...state, ...update.patch }))
+
+        const fireEvent = (type: RetterOptimisticEventType, error?: any) =>
+            this.optimisticEventsSubject.next({
+                type,
+                classId: config.classId,
+                instanceId: config.instanceId!,
+                method: params.method,
+                channel: update.channel,
+                error,
             })
+
+        return {
+            confirm: () => {
+                channel.confirmLayer(
+                    id,
+                    update.reconcileTimeout ?? DEFAULT_RECONCILE_TIMEOUT
+                )
+                fireEvent(RetterOptimisticEventType.CONFIRMED)
+            },
+            rollback: (error: any) => {
+                channel.removeLayer(id)
+                fireEvent(RetterOptimisticEventType.ROLLED_BACK, error)
+            },
+        }
+    }
+
+    protected isCacheableRequest(params?: RetterCloudObjectRequest): boolean {
+        if (!params) return true
+        if (isBinaryBody(params.body) || params.bodyEncoding === 'base64')
+            return false
+
+        return !params.responseType || params.responseType === 'json'
+    }
+
+    protected shouldQueueCall(
+        error: any,
+        params: RetterCloudObjectCall,
+        readonly: boolean | undefined
+    ): boolean {
+        if (!this.offlineQueueInstance || params.queueOffline === false)
+            return false
+        if (!isNetworkError(error)) return false
+        if (params.httpMethod === 'get') return false
+        if (isBinaryBody(params.body) || params.bodyEncoding === 'base64')
+            return false
+        // calls of unknown methods are queued only when asked
+        if (typeof readonly === 'undefined') return params.queueOffline === true
+
+        return !readonly
+    }
+
+    /**
+     * Drops a cloud object from the cache and closes its state listeners.
+     */
+    protected disposeCloudObject(config: RetterCloudObjectConfig) {
+        const prefix = this.getListenerPrefix(config)
+        for (const name of ['role', 'user', 'public']) {
+            const channel = this.listeners[`${prefix}_${name}`]
+            if (!channel) continue
+
+            channel.complete()
+            delete this.listeners[`${prefix}_${name}`]
         }
+
+        const objects = this.cloudObjects.filter(
+            (object) =>
+                object.config.classId === config.classId &&
+                object.config.instanceId === config.instanceId
+        )
+        objects.map((object) => object.unsubscribers.map((u) => u()))
+        this.cloudObjects = this.cloudObjects.filter(
+            (object) => objects.indexOf(object) === -1
+        )
+    }
+
+    protected async clearCloudObjects() {
+        // clear listeners
+        Object.values(this.listeners).map((channel) => channel.complete())
         this.listeners = {}
 
         this.cloudObjects.map((i) => i.unsubscribers.map((u) => u()))
         this.cloudObjects = []
 
-        if (this.firebaseAuth) await signOut(this.firebaseAuth!)
-        this.clearFirebase()
+        await this.clearRealtime()
+    }
+
+    // #endregion
+
+    // #region Instance List
+    public async listInstances(
+        classId: string,
+        params?: RetterListInstancesParams
+    ): Promise<string[]> {
+        const { items } = await this.listInstancesPage(classId, params)
+        return items
+    }
+
+    /**
+     * Lists one page of instance ids. Pass `nextToken` of a page to get the
+     * next one, there are no more pages when it is missing.
+     */
+    public async listInstancesPage(
+        classId: string,
+        params: RetterListInstancesParams = {}
+    ): Promise<RetterInstancePage> {
+        if (!this.initialized)
+            throw new RetterConfigError('Retter SDK not initialized.')
+
+        const { limit, nextToken, keyName, keyValuePrefix, ...request } = params
+        const queryStringParams = { ...request.queryStringParams }
+        if (typeof limit !== 'undefined') queryStringParams.limit = `${limit}`
+        if (nextToken) queryStringParams.nextToken = nextToken
+        if (keyName) queryStringParams.keyName = keyName
+        if (keyValuePrefix) queryStringParams.keyValuePrefix = keyValuePrefix
+
+        const { data } = await this.makeAPIRequest<{
+            instanceIds: string[]
+            nextToken?: string
+        }>(RetterActions.COS_LIST, {
+            ...request,
+            queryStringParams,
+            classId,
+        })
+
+        return { items: data.instanceIds ?? [], nextToken: data.nextToken }
+    }
+
+    /**
+     * Walks all instance ids page by page.
+     *
+     *     for await (const instanceId of rio.iterateInstances('User')) {}
+     */
+    public iterateInstances(
+        classId: string,
+        params: RetterListInstancesParams = {}
+    ): AsyncIterable<string> {
+        return {
+            [Symbol.asyncIterator]: () => {
+                let items: string[] = []
+                let nextToken = params.nextToken
+                let started = false
+
+                return {
+                    next: async (): Promise<IteratorResult<string>> => {
+                        while (items.length === 0) {
+                            if (started && !nextToken)
+                                return { done: true, value: undefined }
+
+                            const page = await this.listInstancesPage(classId, {
+                                ...params,
+                                nextToken,
+                            })
+                            started = true
+                            items = page.items
+                            nextToken = page.nextToken
+                        }
+
+                        return { done: false, value: items.shift()! }
+                    },
+                }
+            },
+        }
+    }
+
+    // #endregion
+
+    // #region Offline Queue
+    public get offlineQueue(): RetterOfflineQueue | undefined {
+        return this.offlineQueueInstance
     }
 
     // #endregion
@@ -545,7 +1346,8 @@ export default class Retter {
     public async makeStaticCall<T>(
         params: RetterCloudObjectStaticCall
     ): Promise<RetterCallResponse<T>> {
-        if (!this.initialized) throw new Error('Retter SDK not initialized.')
+        if (!this.initialized)
+            throw new RetterConfigError('Retter SDK not initialized.')
 
         return await this.makeAPIRequest<T>(RetterActions.COS_STATIC_CALL, {
             ...params,
@@ -555,16 +1357,124 @@ export default class Retter {
 
     // #endregion
 
+    // #region Batch
+    /**
+     * Runs instance calls (with `instanceId`) and static calls (without) with
+     * bounded concurrency. Never rejects, every call settles into its own
+     * result. Concurrent calls share a single token refresh.
+     */
+    public async batch<T = any>(
+        calls: RetterBatchCall[],
+        options: RetterBatchOptions = {}
+    ): Promise<RetterBatchResult<T>[]> {
+        if (!this.initialized)
+            throw new RetterConfigError('Retter SDK not initialized.')
+
+        const total = calls.length
+        const concurrency = Math.max(
+            1,
+            options.concurrency ?? DEFAULT_BATCH_CONCURRENCY
+        )
+        const results: RetterBatchResult<T>[] = new Array(total)
+
+        let next = 0
+        let completed = 0
+        let failed = 0
+        let stopped = false
+
+        const settle = (index: number, result: RetterBatchResult<T>) => {
+            results[index] = result
+            completed++
+            if (result.status === 'rejected') failed++
+
+            if (options.onProgress)
+                options.onProgress({ total, completed, failed })
+        }
+
+        const worker = async () => {
+            while (next < total) {
+                const index = next++
+                const call = calls[index]
+
+                if (stopped || options.signal?.aborted) {
+                    settle(index, {
+                        status: 'rejected',
+                        reason: new RetterCancelledError(
+                            stopped
+                                ? 'Batch stopped after an error.'
+                                : 'Request cancelled.',
+                            { classId: call.classId, method: call.method }
+                        ),
+                    })
+                    continue
+                }
+
+                const action = call.instanceId
+                    ? RetterActions.COS_CALL
+                    : RetterActions.COS_STATIC_CALL
+                const readonly =
+                    call.readonly ??
+                    this.cloudObjects
+                        .find(
+                            (object) =>
+                                object.config.classId === call.classId &&
+                                object.config.instanceId === call.instanceId
+                        )
+                        ?.methods.find((m) => m.name === call.method)?.readonly
+
+                try {
+                    const value = await this.makeAPIRequest<T>(
+                        action,
+                        {
+                            retryConfig: options.retryConfig,
+                            signal: options.signal,
+                            ...call,
+                        },
+                        readonly
+                    )
+                    if (
+                        call.instanceId &&
+                        !readonly &&
+                        this.clientConfig!.cache?.invalidateOnMutation !== false
+                    ) {
+                        await this.responseCache?.invalidateInstance(
+                            call.classId,
+                            call.instanceId
+                        )
+                    }
+                    settle(index, { status: 'fulfilled', value })
+                } catch (error) {
+                    if (options.stopOnError) stopped = true
+                    settle(index, {
+                        status: 'rejected',
+                        reason: toRetterError(error, {
+                            action,
+                            classId: call.classId,
+                            method: call.method,
+                            instanceId: call.instanceId,
+                        }),
+                    })
+                }
+            }
+        }
+
+        const workers: Promise<void>[] = []
+        for (let i = 0; i < Math.min(concurrency, total); i++)
+            workers.push(worker())
+        await Promise.all(workers)
+
+        return results
+    }
+
+    // #endregion
+
     // #region Auth
     protected async initAuth() {
         const tokens = await this.getCurrentTokenData()
         if (tokens && tokens.isTokenValid) {
-            await this.initFirebase(tokens)
-            this.fireAuthStatusChangedEvent({
-                authStatus: RetterAuthStatus.SIGNED_IN,
-                uid: tokens.accessTokenDecoded?.userId,
-                identity: tokens.accessTokenDecoded?.identity,
-            })
+            this.tokenRefreshScheduler?.schedule(tokens)
+            await this.initRealtime(tokens)
+            this.fireAuthStatusChangedEvent(this.getSignedInEvent(tokens))
         } else {
             this.fireAuthStatusChangedEvent({
                 authStatus: RetterAuthStatus.SIGNED_OUT,
@@ -575,80 +1485,226 @@ export default class Retter {
     public async authenticateWithCustomToken(
         token: string
     ): Promise<RetterAuthChangedEvent> {
-        if (!this.clientConfig) throw new Error('Client config not found.')
+        const tokenData = await this.requestTokens('/TOKEN/auth', {
+            customToken: token,
+        })
+
+        return await this.startSession(tokenData)
+    }
+
+    /**
+     * Signs in as a guest. Guest sessions are reported as SIGNED_IN_ANONYM.
+     */
+    public async authenticateAnonymously(): Promise<RetterAuthChangedEvent> {
+        const tokenData = await this.requestTokens('/TOKEN/anonymous', {})
+        tokenData.anonymous = true
+
+        return await this.startSession(tokenData)
+    }
+
+    /**
+     * Exchanges a custom token for the current guest session. Unlike signing
+     * in, cloud objects and their state subscriptions are kept.
+     */
+    public async upgradeAnonymousSession(
+        token: string
+    ): Promise<RetterAuthChangedEvent> {
+        const current = await this.getCurrentTokenData()
+        if (!current?.anonymous && !current?.accessTokenDecoded?.anonymous)
+            throw new RetterAuthError('Current session is not anonymous.')
+
+        // a failed upgrade leaves the guest session as is
+        const tokenData = await this.postTokens(
+            '/TOKEN/auth',
+            { customToken: token },
+            current.accessToken
+        )
+        await this.storeTokenData(tokenData)
+        this.tokenRefreshScheduler?.schedule(tokenData)
+        await this.responseCache?.clear()
+
+        // role and user states are kept per identity, listen the new ones
+        await this.renewRealtimeSession(tokenData)
+        Object.keys(this.listeners)
+            .filter((key) => !key.endsWith('_public'))
+            .map((key) => this.listeners[key].reattach())
+
+        const authEvent = this.getSignedInEvent(tokenData)
+
+        this.fireAuthStatusChangedEvent(authEvent)
+        return authEvent
+    }
+
+    /**
+     * Requests tokens to sign in, failures are reported as auth status.
+     */
+    protected async requestTokens(
+        path: string,
+        data: { [key: string]: any }
+    ): Promise<RetterTokenData> {
+        return await this.postTokens(path, data).catch((error) => {
+            this.fireAuthStatusChangedEvent({
+                authStatus: isNetworkError(error)
+                    ? RetterAuthStatus.CONNECTION_FAILED
+                    : RetterAuthStatus.AUTH_FAILED,
+                message: error.message,
+            })
+            throw error
+        })
+    }
+
+    protected async postTokens(
+        path: string,
+        data: { [key: string]: any },
+        accessToken?: string
+    ): Promise<RetterTokenData> {
+        if (!this.clientConfig)
+            throw new RetterConfigError('Client config not found.')
         const { projectId } = this.clientConfig
 
-        const response = await this.axiosInstance!({
-            url: this.buildUrl(projectId, '/TOKEN/auth'),
-            method: 'post',
-            data: { customToken: token },
+        // each anonymous sign in creates a guest
+        const response = await this.withFailover(
+            (host) =>
+                this.axiosInstance!({
+                    url: this.buildUrl(projectId, path, host),
+                    method: 'post',
+                    data,
+                    headers: accessToken
+                        ? { Authorization: `Bearer ${accessToken}` }
+                        : undefined,
+                }),
+            path !== '/TOKEN/anonymous'
+        ).catch((e) => {
+            throw toRetterError(e, {}, true)
         })
 
-        const tokenData = this.formatTokenData(response.data)
+        return this.formatTokenData(response.data)
+    }
+
+    protected async startSession(
+        tokenData: RetterTokenData
+    ): Promise<RetterAuthChangedEvent> {
         await this.storeTokenData(tokenData)
+        this.tokenRefreshScheduler?.schedule(tokenData)
 
-        this.clearFirebase()
-        this.clearCloudObjects()
-        await this.initFirebase(tokenData)
+        await this.clearCloudObjects()
+        await this.responseCache?.clear()
+        await this.initRealtime(tokenData)
 
-        const authEvent = {
-            authStatus: RetterAuthStatus.SIGNED_IN,
-            uid: tokenData.accessTokenDecoded?.userId,
-            identity: tokenData.accessTokenDecoded?.identity,
-        }
+        const authEvent = this.getSignedInEvent(tokenData)
 
         this.fireAuthStatusChangedEvent(authEvent)
         return authEvent
     }
 
     protected async refreshToken(): Promise<RetterTokenData> {
-        if (!this.clientConfig) throw new Error('Client config not found.')
+        if (!this.clientConfig)
+            throw new RetterConfigError('Client config not found.')
         const { projectId } = this.clientConfig
 
         try {
             const tokens = await this.getCurrentTokenData()
             const refreshToken = tokens?.refreshToken
 
-            const response = await this.axiosInstance!({
-                url: this.buildUrl(projectId, '/TOKEN/refresh'),
-                method: 'post',
-                data: { refreshToken },
-            })
+            // refresh tokens are rotated, a refresh that ran can't be sent again
+            const response = await this.withFailover(
+                (host) =>
+                    this.axiosInstance!({
+                        url: this.buildUrl(projectId, '/TOKEN/refresh', host),
+                        method: 'post',
+                        data: { refreshToken },
+                    }),
+                false
+            )
 
             const tokenData = this.formatTokenData(response.data)
+            if (tokens?.anonymous) tokenData.anonymous = true
             await this.storeTokenData(tokenData)
             return tokenData
-        } catch (error: any) {
-            const isNetworkError = error.message === 'Network Error'
-            if (!isNetworkError) await this.signOut()
+        } catch (e: any) {
+            const error = toRetterError(e, {}, true)
+            if (isNetworkError(error)) {
+                this.fireAuthStatusChangedEvent({
+                    authStatus: RetterAuthStatus.CONNECTION_FAILED,
+                    message: error.message,
+                })
+            } else {
+                await this.endSession({
+                    authStatus: RetterAuthStatus.AUTH_FAILED,
+                    message: error.message,
+                })
+            }
 
             throw error
         }
     }
 
+    /**
+     * Refreshes tokens once for all concurrent callers.
+     */
+    protected refreshTokenSingleFlight(): Promise<RetterTokenData> {
+        if (this.refreshTokenPromise) return this.refreshTokenPromise
+
+        this.refreshTokenPromise = (async () => {
+            try {
+                const tokenData = await this.refreshToken()
+                this.tokenRefreshScheduler?.schedule(tokenData)
+                // waiting requests shouldn't wait for the realtime connection
+                this.renewRealtimeSession(tokenData).catch(() => {})
+                this.fireAuthStatusChangedEvent(
+                    this.getSignedInEvent(tokenData)
+                )
+                this.tokenEventsSubject.next({
+                    type: RetterTokenEventType.TOKEN_REFRESHED,
+                    expiresAt: tokenData.accessTokenDecoded?.exp,
+                })
+                return tokenData
+            } catch (error: any) {
+                this.tokenEventsSubject.next({
+                    type: RetterTokenEventType.TOKEN_REFRESH_FAILED,
+                    error,
+                })
+                throw error
+            } finally {
+                this.refreshTokenPromise = null
+            }
+        })()
+
+        return this.refreshTokenPromise
+    }
+
     public async signOut(): Promise<void> {
+        await this.endSession({ authStatus: RetterAuthStatus.SIGNED_OUT })
+    }
+
+    /**
+     * Signs out from the backend, clears the local session and reports the
+     * given status.
+     */
+    protected async endSession(event: RetterAuthChangedEvent): Promise<void> {
+        this.tokenRefreshScheduler?.schedule(undefined)
         try {
             const tokenData = await this.getCurrentTokenData()
 
             if (tokenData) {
                 const { projectId } = this.clientConfig!
 
-                await this.axiosInstance!({
-                    url: this.buildUrl(projectId, '/TOKEN/signOut'),
-                    method: 'post',
-                    headers: {
-                        Authorization: `Bearer ${tokenData.accessToken}`,
-                    },
-                })
+                await this.withFailover((host) =>
+                    this.axiosInstance!({
+                        url: this.buildUrl(projectId, '/TOKEN/signOut', host),
+                        method: 'post',
+                        headers: {
+                            Authorization: `Bearer ${tokenData.accessToken}`,
+                        },
+                    })
+                )
             }
         } catch (error) {
         } finally {
-            this.clearFirebase()
             await this.clearTokenData()
+            await this.responseCache?.clear()
             await this.clearCloudObjects()
-            this.fireAuthStatusChangedEvent({
-                authStatus: RetterAuthStatus.SIGNED_OUT,
-            })
+            this.fireAuthStatusChangedEvent(event)
         }
     }
 
@@ -660,11 +1716,20 @@ export default class Retter {
 
     protected async storeTokenData(data: RetterTokenData): Promise<void> {
         if (typeof data === 'undefined') return
-        await AsyncStorage.setItem(this.tokenStorageKey!, JSON.stringify(data))
+        await this.tokenStorage.setItem(
+            this.tokenStorageKey!,
+            JSON.stringify(data)
+        )
+        this.tokenDataPromise = Promise.resolve(data)
+        this.currentUser = data.accessTokenDecoded
+        await this.updateSessionList(true)
     }
 
     protected async clearTokenData(): Promise<void> {
-        await AsyncStorage.removeItem(this.tokenStorageKey!)
+        await this.tokenStorage.removeItem(this.tokenStorageKey!)
+        this.tokenDataPromise = Promise.resolve(undefined)
+        this.currentUser = undefined
+        await this.updateSessionList(false)
     }
 
     protected formatTokenData(tokenData: RetterTokenData): RetterTokenData {
@@ -674,6 +1739,7 @@ export default class Retter {
         if (tokenData.accessTokenDecoded?.iat) {
             tokenData.diff =
                 tokenData.accessTokenDecoded.iat - Math.floor(Date.now() / 1000)
+            this.serverClock.seed(tokenData.diff * 1000)
         }
 
         tokenData.isTokenValid =
@@ -688,8 +1754,28 @@ export default class Retter {
         RetterTokenData | undefined
     > {
         if (!this.tokenStorageKey)
-            throw new Error('Token storage key not found.')
-        const item = await AsyncStorage.getItem(this.tokenStorageKey)
+            throw new RetterConfigError('Token storage key not found.')
+
+        if (!this.tokenDataPromise)
+            this.tokenDataPromise = this.readTokenData(this.tokenStorageKey)
+
+        return await this.tokenDataPromise
+    }
+
+    protected async readTokenData(
+        key: string
+    ): Promise<RetterTokenData | undefined> {
+        let item: string | null
+        try {
+            item = await this.tokenStorage.getItem(key)
+        } catch (error) {
+            // a session that can't be decrypted is dropped, as if signed out,
+            // other failures are read again next time
+            if (error instanceof RetterDecryptionError)
+                await this.storage.removeItem(key)
+            else this.tokenDataPromise = null
+            return undefined
+        }
 
         if (!item) return undefined
 
@@ -710,7 +1796,34 @@ export default class Retter {
         }
     }
 
+    protected getSignedInEvent(
+        tokenData: RetterTokenData
+    ): RetterAuthChangedEvent {
+        return {
+            authStatus:
+                tokenData.anonymous || tokenData.accessTokenDecoded?.anonymous
+                    ? RetterAuthStatus.SIGNED_IN_ANONYM
+                    : RetterAuthStatus.SIGNED_IN,
+            uid: tokenData.accessTokenDecoded?.userId,
+            identity: tokenData.accessTokenDecoded?.identity,
+        }
+    }
+
+    /**
+     * Emits the event unless it repeats the current state.
+     */
     protected fireAuthStatusChangedEvent(event: RetterAuthChangedEvent): void {
+        const current = this.currentAuthEvent
+        if (
+            current &&
+            current.authStatus === event.authStatus &&
+            current.uid === event.uid &&
+            current.identity === event.identity &&
+            current.message === event.message
+        )
+            return
+
+        this.currentAuthEvent = event
         this.authStatusSubject.next(event)
     }
 
@@ -718,5 +1831,16 @@ export default class Retter {
         return this.authStatusSubject
     }
 
+    /**
+     * Last auth status event, undefined until the stored session is read.
+     */
+    public get currentAuthStatus(): RetterAuthChangedEvent | undefined {
+        return this.currentAuthEvent
+    }
+
+    public get tokenEvents(): Observable<RetterTokenEvent> {
+        return this.tokenEventsSubject
+    }
+
     // #endregion
 }
@@ -62,7 +62,10 @@ export class Observable<T> {
     }
 
     complete(): void {
-        this.observers.forEach((observer) => {
+        // completed observers get nothing more
+        const observers = this.observers
+        this.observers = []
+        observers.forEach((observer) => {
             observer.complete()
         })
     }
@@ -0,0 +1,204 @@
+import uuid from 'react-native-uuid'
+import { Observable } from './observable'
+import { isNetworkError } from './helpers'
+import {
+    RetterCallResponse,
+    RetterCloudObjectCall,
+    RetterOfflineQueueConfig,
+    RetterOfflineQueueEvent,
+    RetterOfflineQueueEventType,
+    RetterOfflineQueueItem,
+    RetterStorage,
+} from './types'
+
+type RetterOfflineQueueExecutor = (
+    item: RetterOfflineQueueItem
+) => Promise<RetterCallResponse<any>>
+
+/**
+ * Persists cloud object calls that could not reach the network and replays
+ * them in order once connectivity returns.
+ */
+export class RetterOfflineQueue {
+    private items: RetterOfflineQueueItem[] = []
+
+    private loadPromise: Promise<void> | null = null
+
+    private flushPromise: Promise<void> | null = null
+
+    private statusSubject: Observable<RetterOfflineQueueEvent>
+
+    private connectivityUnsubscriber?: () => void
+
+    constructor(
+        private storage: RetterStorage,
+        private storageKey: string,
+        private config: RetterOfflineQueueConfig,
+        private execute: RetterOfflineQueueExecutor
+    ) {
+        this.statusSubject = new Observable<RetterOfflineQueueEvent>(() => {})
+
+        const { connectivity } = this.config
+        if (connectivity) {
+            this.connectivityUnsubscriber = connectivity.subscribe(
+                (isConnected) => {
+                    if (isConnected) this.flush().catch(() => {})
+                }
+            )
+            connectivity
+                .isConnected()
+                .then((isConnected) => {
+                    if (isConnected) return this.flush()
+                })
+                .catch(() => {})
+        }
+    }
+
+    public get status(): Observable<RetterOfflineQueueEvent> {
+        return this.statusSubject
+    }
+
+    public get pendingCount(): number {
+        return this.items.length
+    }
+
+    public async getItems(): Promise<RetterOfflineQueueItem[]> {
+        await this.load()
+        return [...this.items]
+    }
+
+    public async enqueue(
+        classId: string,
+        instanceId: string,
+        params: RetterCloudObjectCall
+    ): Promise<RetterOfflineQueueItem> {
+        await this.load()
+
+        const { retryConfig, signal, optimistic, ...rest } = params
+        const item: RetterOfflineQueueItem = {
+            id: uuid.v4().toString(),
+            classId,
+            instanceId,
+            params: rest,
+            createdAt: Date.now(),
+        }
+
+        this.items.push(item)
+        if (this.config.maxSize && this.items.length > this.config.maxSize) {
+            const dropped = this.items.shift()!
+            this.fireEvent(RetterOfflineQueueEventType.DISCARDED, dropped)
+        }
+        await this.persist()
+
+        this.fireEvent(RetterOfflineQueueEventType.QUEUED, item)
+        return item
+    }
+
+    /**
+     * Replays queued calls in order. Stops at the first call that fails to
+     * reach the network and keeps it, with the rest, for the next flush.
+     */
+    public async flush(): Promise<void> {
+        if (this.flushPromise) return await this.flushPromise
+
+        this.flushPromise = (async () => {
+            try {
+                await this.load()
+
+                while (this.items.length > 0) {
+                    const item = this.items[0]
+                    try {
+                        const response = await this.execute(item)
+                        await this.remove(item.id)
+                        this.fireEvent(
+                            RetterOfflineQueueEventType.SUCCEEDED,
+                            item,
+                            { response }
+                        )
+                    } catch (error) {
+                        if (isNetworkError(error)) break
+
+                        await this.remove(item.id)
+                        this.fireEvent(
+                            RetterOfflineQueueEventType.FAILED,
+                            item,
+                            { error }
+                        )
+                    }
+                }
+            } finally {
+                this.flushPromise = null
+            }
+        })()
+
+        return await this.flushPromise
+    }
+
+    /**
+     * Drops a queued call, or every queued call when no id is given.
+     */
+    public async discard(id?: string): Promise<void> {
+        await this.load()
+
+        const discarded = id
+            ? this.items.filter((item) => item.id === id)
+            : [...this.items]
+        if (discarded.length === 0) return
+
+        this.items = this.items.filter((item) => discarded.indexOf(item) === -1)
+        await this.persist()
+
+        discarded.map((item) =>
+            this.fireEvent(RetterOfflineQueueEventType.DISCARDED, item)
+        )
+    }
+
+    public stop() {
+        if (this.connectivityUnsubscriber) this.connectivityUnsubscriber()
+        this.connectivityUnsubscriber = undefined
+    }
+
+    protected async remove(id: string) {
+        this.items = this.items.filter((item) => item.id !== id)
+        await this.persist()
+    }
+
+    protected async load(): Promise<void> {
+        if (!this.loadPromise) {
+            this.loadPromise = (async () => {
+                const stored = await this.storage.getItem(this.storageKey)
+                if (!stored) return
+
+                try {
+                    const items = JSON.parse(stored)
+                    if (Array.isArray(items))
+                        this.items = [...items, ...this.items]
+                } catch (e) {}
+            })()
+        }
+
+        await this.loadPromise
+    }
+
+    protected async persist(): Promise<void> {
+        if (this.items.length === 0) {
+            await this.storage.removeItem(this.storageKey)
+            return
+        }
+
+        await this.storage.setItem(this.storageKey, JSON.stringify(this.items))
+    }
+
+    protected fireEvent(
+        type: RetterOfflineQueueEventType,
+        item: RetterOfflineQueueItem,
+        extra?: Pick<RetterOfflineQueueEvent, 'response' | 'error'>
+    ) {
+        this.statusSubject.next({
+            type,
+            item,
+            pendingCount: this.items.length,
+            ...extra,
+        })
+    }
+}
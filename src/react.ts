@@ -0,0 +1,243 @@
+import {
+    createContext,
+    createElement,
+    ReactNode,
+    useCallback,
+    useContext,
+    useEffect,
+    useRef,
+    useState,
+} from 'react'
+import Retter from './index'
+import { sort } from './helpers'
+import {
+    RetterAuthChangedEvent,
+    RetterAuthStatus,
+    RetterCallResponse,
+    RetterCancelledError,
+    RetterClientConfig,
+    RetterCloudObject,
+    RetterCloudObjectCall,
+    RetterCloudObjectConfig,
+    RetterConfigError,
+    RetterStateChannelName,
+    RetterTokenPayload,
+} from './types'
+
+export { RetterStateChannelName }
+
+export type RetterProviderProps = (
+    { client: Retter } | { config: RetterClientConfig }
+) & {
+    children?: ReactNode
+}
+
+const RetterContext = createContext<Retter | null>(null)
+
+export function RetterProvider(props: RetterProviderProps) {
+    const client =
+        'client' in props ? props.client : Retter.getInstance(props.config)
+
+    return createElement(
+        RetterContext.Provider,
+        { value: client },
+        props.children
+    )
+}
+
+export function useRetter(): Retter {
+    const client = useContext(RetterContext)
+    if (!client)
+        throw new RetterConfigError(
+            'useRetter must be used within a RetterProvider.'
+        )
+
+    return client
+}
+
+export function useAuthStatus(): RetterAuthChangedEvent | undefined {
+    const client = useRetter()
+    const [event, setEvent] = useState(() => client.currentAuthStatus)
+
+    useEffect(() => {
+        const subscription = client.authStatus.subscribe(setEvent)
+        return () => subscription.unsubscribe()
+    }, [client])
+
+    return event
+}
+
+export function useCurrentUser(): RetterTokenPayload | undefined {
+    const client = useRetter()
+    const event = useAuthStatus()
+    const [user, setUser] = useState<RetterTokenPayload>()
+
+    useEffect(() => {
+        let active = true
+        client
+            .getCurrentUser()
+            .then((currentUser) => {
+                if (active) setUser(currentUser)
+            })
+            .catch(() => {})
+
+        return () => {
+            active = false
+        }
+    }, [client, event])
+
+    return user
+}
+
+/**
+ * Tells who is signed in. Failures keep the previous identity, since they
+ * don't change the session.
+ */
+function getIdentityKey(
+    event: RetterAuthChangedEvent | undefined,
+    previous: string | undefined
+): string | undefined {
+    switch (event?.authStatus) {
+        case RetterAuthStatus.SIGNED_IN:
+        case RetterAuthStatus.SIGNED_IN_ANONYM:
+            return `${event.authStatus}_${event.uid}`
+        case RetterAuthStatus.SIGNED_OUT:
+            return event.authStatus
+    }
+
+    return previous
+}
+
+export function useCloudObject(config?: RetterCloudObjectConfig) {
+    const client = useRetter()
+    const event = useAuthStatus()
+    const identity = useRef<string>()
+
+    const [cloudObject, setCloudObject] = useState<RetterCloudObject>()
+    const [loading, setLoading] = useState(Boolean(config))
+    const [error, setError] = useState<any>()
+
+    // cloud objects are cleared on sign in and sign out, fetch again then
+    const configKey = config ? JSON.stringify(sort({ ...config })) : undefined
+    identity.current = getIdentityKey(event, identity.current)
+    const identityKey = identity.current
+
+    useEffect(() => {
+        if (!config) {
+            setCloudObject(undefined)
+            setLoading(false)
+            return
+        }
+        // wait for the stored session, it may change the instance
+        if (!identityKey) return
+
+        let active = true
+        setLoading(true)
+        setError(undefined)
+
+        client
+            .getCloudObject({ ...config })
+            .then((object) => {
+                if (!active) return
+                setCloudObject(object)
+                setLoading(false)
+            })
+            .catch((e) => {
+                if (!active) return
+                setError(e)
+                setLoading(false)
+            })
+
+        return () => {
+            active = false
+        }
+    }, [client, configKey, identityKey])
+
+    return { cloudObject, loading, error }
+}
+
+export function useCloudObjectState<T = { [key: string]: any }>(
+    cloudObject: RetterCloudObject | undefined,
+    channel: RetterStateChannelName
+): T | undefined {
+    const [state, setState] = useState<T>()
+
+    useEffect(() => {
+        setState(undefined)
+        if (!cloudObject?.state) return
+
+        const subscription = cloudObject.state[channel].subscribe(setState)
+        return () => subscription.unsubscribe()
+    }, [cloudObject, channel])
+
+    return state
+}
+
+export function useCall<T = any>(cloudObject: RetterCloudObject | undefined) {
+    const mounted = useRef(true)
+    const lastCall = useRef(0)
+    const controllers = useRef<AbortController[]>([])
+
+    const [data, setData] = useState<T>()
+    const [response, setResponse] = useState<RetterCallResponse<T>>()
+    const [error, setError] = useState<any>()
+    const [pending, setPending] = useState(false)
+
+    useEffect(() => {
+        mounted.current = true
+        return () => {
+            mounted.current = false
+            controllers.current.map((controller) => controller.abort())
+            controllers.current = []
+        }
+    }, [])
+
+    const call = useCallback(
+        async (
+            params: RetterCloudObjectCall
+        ): Promise<RetterCallResponse<T> | undefined> => {
+            if (!cloudObject)
+                throw new RetterConfigError('Cloud object is not ready.')
+
+            const id = ++lastCall.current
+            const isCurrent = () => mounted.current && id === lastCall.current
+
+            const controller = new AbortController()
+            controllers.current.push(controller)
+            if (params.signal?.aborted) controller.abort()
+            params.signal?.addEventListener('abort', () => controller.abort())
+
+            setPending(true)
+            setError(undefined)
+
+            try {
+                const result = await cloudObject.call<T>({
+                    ...params,
+                    signal: controller.signal,
+                })
+                if (isCurrent()) {
+                    setResponse(result)
+                    setData(result.data)
+                    setPending(false)
+                }
+                return result
+            } catch (e) {
+                if (isCurrent()) {
+                    setError(e)
+                    setPending(false)
+                }
+                // nobody is left to handle calls cancelled by the unmount
+                if (!mounted.current && e instanceof RetterCancelledError)
+                    return undefined
+                throw e
+            } finally {
+                controllers.current = controllers.current.filter(
+                    (c) => c !== controller
+                )
+            }
+        },
+        [cloudObject]
+    )
+
+    return { call, data, response, error, pending }
+}
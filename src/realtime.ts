@@ -0,0 +1,180 @@
+import { deleteApp, FirebaseApp, getApps, initializeApp } from 'firebase/app'
+import {
+    doc,
+    Firestore,
+    initializeFirestore,
+    onSnapshot,
+} from 'firebase/firestore'
+import { Auth, getAuth, signInWithCustomToken, signOut } from 'firebase/auth'
+import { RetterRealtimeConfig, RetterRealtimeTransport } from './types'
+
+function normalizePath(path: string): string {
+    return path
+        .split('/')
+        .filter((segment) => segment.length > 0)
+        .join('/')
+}
+
+interface RetterPendingSubscription {
+    path: string
+    onData: (data: any) => void
+    onError?: (error: any) => void
+    detach?: () => void
+}
+
+/**
+ * Default realtime transport, listens state documents on Firestore.
+ * Subscriptions made before connecting are attached once connected.
+ */
+export class FirestoreRealtimeTransport implements RetterRealtimeTransport {
+    private app?: FirebaseApp
+
+    private firestore?: Firestore
+
+    private auth?: Auth
+
+    private pending: RetterPendingSubscription[] = []
+
+    async connect(config: RetterRealtimeConfig): Promise<void> {
+        if (this.app) return
+
+        const existing = getApps().find((app) => app.name === config.appName)
+        if (existing) await deleteApp(existing).catch(() => {})
+
+        this.app = initializeApp(
+            {
+                apiKey: config.apiKey,
+                authDomain: config.projectId + '.firebaseapp.com',
+                projectId: config.projectId,
+            },
+            config.appName
+        )
+
+        this.firestore = initializeFirestore(this.app, {
+            experimentalForceLongPolling: true,
+        })
+        this.auth = getAuth(this.app)
+
+        const pending = this.pending
+        this.pending = []
+        pending.map(
+            (subscription) =>
+                (subscription.detach = this.listen(
+                    subscription.path,
+                    subscription.onData,
+                    subscription.onError
+                ))
+        )
+    }
+
+    async authenticate(customToken: string): Promise<void> {
+        if (!this.auth) return
+        await signInWithCustomToken(this.auth, customToken)
+    }
+
+    subscribe(
+        path: string,
+        onData: (data: any) => void,
+        onError?: (error: any) => void
+    ): () => void {
+        if (this.firestore) return this.listen(path, onData, onError)
+
+        const subscription: RetterPendingSubscription = {
+            path,
+            onData,
+            onError,
+        }
+        this.pending.push(subscription)
+
+        return () => {
+            this.pending = this.pending.filter((s) => s !== subscription)
+            if (subscription.detach) subscription.detach()
+            subscription.detach = undefined
+        }
+    }
+
+    async disconnect(): Promise<void> {
+        const app = this.app
+        const auth = this.auth
+
+        this.app = undefined
+        this.firestore = undefined
+        this.auth = undefined
+
+        if (auth) await signOut(auth).catch(() => {})
+        if (app) await deleteApp(app).catch(() => {})
+    }
+
+    protected listen(
+        path: string,
+        onData: (data: any) => void,
+        onError?: (error: any) => void
+    ): () => void {
+        const document = doc(this.firestore!, normalizePath(path))
+        return onSnapshot(document, (doc) => onData(doc.data()), onError)
+    }
+}
+
+/**
+ * Keeps documents in memory. Tests can push snapshots into it to drive state
+ * subscriptions without a Firebase project.
+ */
+export class MemoryRealtimeTransport implements RetterRealtimeTransport {
+    private documents: { [path: string]: any } = {}
+
+    private listeners: { [path: string]: ((data: any) => void)[] } = {}
+
+    public config?: RetterRealtimeConfig
+
+    public customToken?: string
+
+    public get isConnected(): boolean {
+        return Boolean(this.config)
+    }
+
+    async connect(config: RetterRealtimeConfig): Promise<void> {
+        this.config = config
+    }
+
+    async authenticate(customToken: string): Promise<void> {
+        this.customToken = customToken
+    }
+
+    subscribe(path: string, onData: (data: any) => void): () => void {
+        const key = normalizePath(path)
+        if (!this.listeners[key]) this.listeners[key] = []
+        this.listeners[key].push(onData)
+
+        if (Object.prototype.hasOwnProperty.call(this.documents, key))
+            onData(this.documents[key])
+
+        return () => {
+            this.listeners[key] = (this.listeners[key] ?? []).filter(
+                (listener) => listener !== onData
+            )
+        }
+    }
+
+    async disconnect(): Promise<void> {
+        this.config = undefined
+        this.customToken = undefined
+    }
+
+    /**
+     * Sets a document and notifies its listeners.
+     */
+    push(path: string, data: any): void {
+        const key = normalizePath(path)
+        this.documents[key] = data
+
+        const listeners = this.listeners[key] ?? []
+        listeners.map((listener) => listener(data))
+    }
+
+    /**
+     * Returns how many listeners are attached to a document.
+     */
+    listenerCount(path: string): number {
+        return (this.listeners[normalizePath(path)] ?? []).length
+    }
+}
@@ -0,0 +1,84 @@
+import { isNetworkError } from './helpers'
+import { RetterRegion, RetterRegionConfig } from './types'
+
+const DEFAULT_FAILOVER_COOLDOWN = 30000 // in ms
+const RETTER_ERROR_STATUS = 570 // thrown by cloud methods, not by hosts
+const GATEWAY_STATUSES = [502, 503, 504]
+
+const regions: { [id: string]: RetterRegionConfig } = {}
+
+/**
+ * Adds a region, or replaces the one with the same id.
+ */
+export function registerRegion(config: RetterRegionConfig): void {
+    regions[String(config.id)] = { ...config }
+}
+
+export function getRegion(
+    id: RetterRegion | string
+): RetterRegionConfig | undefined {
+    return regions[String(id)]
+}
+
+registerRegion({ id: RetterRegion.euWest1, url: 'api.retter.io' })
+registerRegion({ id: RetterRegion.euWest1Beta, url: 'test-api.retter.io' })
+
+/**
+ * Tells if a request should be tried again on the next host. Requests that
+ * could not have run, network errors and gateway errors without a body, are
+ * always failed over. Other 5xx responses may come from a cloud method that
+ * did run, so only idempotent requests are sent again.
+ */
+export function isFailoverError(error: any, idempotent: boolean): boolean {
+    if (isNetworkError(error)) return true
+
+    const status = error?.status ?? error?.response?.status
+    if (typeof status !== 'number') return false
+
+    const data = error?.response ? error.response.data : error?.data
+    const hasBody = data !== undefined && data !== null && data !== ''
+    if (GATEWAY_STATUSES.indexOf(status) !== -1 && !hasBody) return true
+
+    return idempotent && status >= 500 && status !== RETTER_ERROR_STATUS
+}
+
+/**
+ * Picks a host from an ordered list. Failed hosts are skipped until their
+ * cooldown ends.
+ */
+export class RetterHostPool {
+    private failures: { [host: string]: number } = {}
+
+    constructor(private cooldown = DEFAULT_FAILOVER_COOLDOWN) {}
+
+    /**
+     * Returns the first available host which is not excluded. When all of
+     * them are cooling down, the one that failed first is returned.
+     */
+    public select(hosts: string[], exclude: string[] = []): string | undefined {
+        const candidates = hosts.filter((host) => exclude.indexOf(host) === -1)
+        const now = Date.now()
+
+        const available = candidates.find((host) => {
+            const failedAt = this.failures[host]
+            return !failedAt || now - failedAt >= this.cooldown
+        })
+        if (available) return available
+
+        return candidates.reduce<string | undefined>(
+            (oldest, host) =>
+                !oldest || this.failures[host] < this.failures[oldest]
+                    ? host
+                    : oldest,
+            undefined
+        )
+    }
+
+    public reportFailure(host: string): void {
+        this.failures[host] = Date.now()
+    }
+
+    public reportSuccess(host: string): void {
+        delete this.failures[host]
+    }
+}
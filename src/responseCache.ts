@@ -0,0 +1,208 @@
+import { canonicalize } from './helpers'
+import { RetterCacheConfig, RetterCallResponse, RetterStorage } from './types'
+
+const DEFAULT_TTL = 60000 // in ms
+
+export interface RetterCachePolicy {
+    ttl: number
+    staleWhileRevalidate: number
+}
+
+interface RetterCacheEntry {
+    response: RetterCallResponse<any>
+    expiresAt: number
+    staleUntil: number
+}
+
+/**
+ * Caches responses of readonly cloud methods and state requests. Fresh
+ * entries are served directly, stale ones are served while a single
+ * background request refreshes them.
+ */
+export class RetterResponseCache {
+    private entries: { [key: string]: RetterCacheEntry } = {}
+
+    private revalidations: { [key: string]: Promise<any> | undefined } = {}
+
+    private generation = 0
+
+    private instanceGenerations: { [prefix: string]: number } = {}
+
+    private loadPromise: Promise<void> | null = null
+
+    constructor(
+        private storage: RetterStorage,
+        private storageKey: string,
+        private config: RetterCacheConfig
+    ) {}
+
+    public static getKey(
+        classId: string,
+        instanceId: string | undefined,
+        method: string,
+        body?: any,
+        queryStringParams?: any
+    ): string {
+        const params = canonicalize({
+            body: body ?? null,
+            query: queryStringParams ?? null,
+        })
+        return `${this.getInstancePrefix(classId, instanceId)}${method}|${params}`
+    }
+
+    protected static getInstancePrefix(
+        classId: string,
+        instanceId: string | undefined
+    ): string {
+        return `${classId}|${instanceId ?? ''}|`
+    }
+
+    /**
+     * Returns the policy of a method, or undefined when it should not be
+     * cached.
+     */
+    public getPolicy(method: string): RetterCachePolicy | undefined {
+        const override = this.config.methods?.[method]
+        if (override === false) return undefined
+
+        return {
+            ttl: override?.ttl ?? this.config.ttl ?? DEFAULT_TTL,
+            staleWhileRevalidate:
+                override?.staleWhileRevalidate ??
+                this.config.staleWhileRevalidate ??
+                0,
+        }
+    }
+
+    public async fetch<T>(
+        key: string,
+        policy: RetterCachePolicy,
+        request: () => Promise<RetterCallResponse<T>>
+    ): Promise<RetterCallResponse<T>> {
+        await this.load()
+
+        const entry = this.entries[key]
+        const now = Date.now()
+
+        if (entry && now < entry.expiresAt) return entry.response
+        if (entry && now < entry.staleUntil) {
+            this.revalidate(key, policy, request).catch(() => {})
+            return entry.response
+        }
+
+        return await this.revalidate(key, policy, request)
+    }
+
+    public async invalidateInstance(
+        classId: string,
+        instanceId: string
+    ): Promise<void> {
+        await this.load()
+
+        const prefix = RetterResponseCache.getInstancePrefix(
+            classId,
+            instanceId
+        )
+        Object.keys(this.entries)
+            .filter((key) => key.startsWith(prefix))
+            .map((key) => delete this.entries[key])
+
+        // responses requested before the mutation must not be stored
+        this.instanceGenerations[prefix] =
+            (this.instanceGenerations[prefix] ?? 0) + 1
+        Object.keys(this.revalidations)
+            .filter((key) => key.startsWith(prefix))
+            .map((key) => delete this.revalidations[key])
+
+        await this.persist()
+    }
+
+    public async clear(): Promise<void> {
+        await this.load()
+
+        this.entries = {}
+        this.revalidations = {}
+        this.generation++
+        await this.persist()
+    }
+
+    protected revalidate<T>(
+        key: string,
+        policy: RetterCachePolicy,
+        request: () => Promise<RetterCallResponse<T>>
+    ): Promise<RetterCallResponse<T>> {
+        const pending = this.revalidations[key]
+        if (pending) return pending
+
+        const generation = this.generation
+        // keys start with the instance prefix, `classId|instanceId|`
+        const prefix = `${key.split('|').slice(0, 2).join('|')}|`
+        const instanceGeneration = this.instanceGenerations[prefix] ?? 0
+        const isCurrent = () =>
+            this.generation === generation &&
+            (this.instanceGenerations[prefix] ?? 0) === instanceGeneration
+
+        const promise = (async () => {
+            try {
+                const { data, status, statusText, headers } = await request()
+                const response = { data, status, statusText, headers }
+
+                // responses requested before a `clear` or an invalidation
+                // are not stored
+                if (isCurrent()) {
+                    const now = Date.now()
+                    this.entries[key] = {
+                        response,
+                        expiresAt: now + policy.ttl,
+                        staleUntil:
+                            now + policy.ttl + policy.staleWhileRevalidate,
+                    }
+                    await this.persist()
+                }
+
+                return response
+            } finally {
+                if (isCurrent()) delete this.revalidations[key]
+            }
+        })()
+
+        this.revalidations[key] = promise
+        return promise
+    }
+
+    protected async load(): Promise<void> {
+        if (!this.config.persist) return
+
+        if (!this.loadPromise) {
+            this.loadPromise = (async () => {
+                const stored = await this.storage.getItem(this.storageKey)
+                if (!stored) return
+
+                try {
+                    this.entries = { ...JSON.parse(stored), ...this.entries }
+                } catch (e) {}
+            })()
+        }
+
+        await this.loadPromise
+    }
+
+    protected async persist(): Promise<void> {
+        if (!this.config.persist) return
+
+        const now = Date.now()
+        Object.keys(this.entries)
+            .filter((key) => this.entries[key].staleUntil <= now)
+            .map((key) => delete this.entries[key])
+
+        if (Object.keys(this.entries).length === 0) {
+            await this.storage.removeItem(this.storageKey)
+            return
+        }
+
+        await this.storage.setItem(
+            this.storageKey,
+            JSON.stringify(this.entries)
+        )
+    }
+}
@@ -0,0 +1,97 @@
+import { isNetworkError } from './helpers'
+import { RetterRetryConfig } from './types'
+
+export const DEFAULT_RETRY_DELAY = 50 // in ms
+export const DEFAULT_RETRY_COUNT = 3
+export const DEFAULT_RETRY_RATE = 1.5
+export const DEFAULT_RETRY_MAX_DELAY = 10000 // in ms
+export const DEFAULT_RETRYABLE_STATUS_CODES = [570]
+
+export function getRetryConfig(
+    ...configs: (RetterRetryConfig | undefined)[]
+): RetterRetryConfig {
+    const config: RetterRetryConfig = {
+        delay: DEFAULT_RETRY_DELAY,
+        count: DEFAULT_RETRY_COUNT,
+        rate: DEFAULT_RETRY_RATE,
+        maxDelay: DEFAULT_RETRY_MAX_DELAY,
+        jitter: 'none',
+        retryableStatusCodes: DEFAULT_RETRYABLE_STATUS_CODES,
+        retryOnNetworkError: false,
+        respectRetryAfter: true,
+    }
+
+    for (const override of configs) {
+        if (!override) continue
+        for (const key of Object.keys(
+            override
+        ) as (keyof RetterRetryConfig)[]) {
+            if (typeof override[key] !== 'undefined')
+                (config as any)[key] = override[key]
+        }
+    }
+
+    return config
+}
+
+export function isRetryableError(
+    error: any,
+    config: RetterRetryConfig
+): boolean {
+    if (isNetworkError(error)) return Boolean(config.retryOnNetworkError)
+
+    const status = error?.status
+    if (typeof status !== 'number') return false
+
+    return (config.retryableStatusCodes ?? []).indexOf(status) !== -1
+}
+
+/**
+ * Parses a Retry-After header, given either in seconds or as an HTTP date,
+ * into milliseconds.
+ */
+export function parseRetryAfter(value?: string): number | undefined {
+    if (!value) return undefined
+
+    const seconds = Number(value)
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+    const date = Date.parse(value)
+    if (isNaN(date)) return undefined
+
+    return Math.max(0, date - Date.now())
+}
+
+/**
+ * Calculates how long to wait before the next attempt. `attempt` is the
+ * number of attempts made so far, `previousDelay` the last wait time.
+ */
+export function getRetryDelay(
+    config: RetterRetryConfig,
+    attempt: number,
+    previousDelay: number,
+    error?: any
+): number {
+    const base = config.delay!
+    const cap = config.maxDelay ?? Infinity
+
+    if (config.respectRetryAfter) {
+        const retryAfter = parseRetryAfter(error?.headers?.['retry-after'])
+        if (typeof retryAfter !== 'undefined') return Math.min(cap, retryAfter)
+    }
+
+    const exponential = Math.min(cap, base * Math.pow(config.rate!, attempt))
+
+    switch (config.jitter) {
+        case 'full':
+            return Math.random() * exponential
+        case 'decorrelated':
+            return Math.min(
+                cap,
+                base +
+                    Math.random() * (Math.max(previousDelay, base) * 3 - base)
+            )
+        default:
+            return exponential
+    }
+}
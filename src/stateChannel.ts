@@ -0,0 +1,182 @@
+import { Observable } from './observable'
+
+interface RetterStateLayer<T> {
+    id: number
+    apply: (value: T) => T
+    settled: boolean
+    timer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * A realtime state channel (role, user or public state) of a cloud object.
+ * The underlying listener is attached on the first subscription and detached
+ * when the last subscriber leaves. New subscribers get the last known value
+ * right away.
+ *
+ * Emitted values are the last snapshot with optimistic layers applied on top,
+ * in the order they were added.
+ */
+export class RetterStateChannel<T = any> {
+    private subject: Observable<T>
+
+    private subscriberCount = 0
+
+    private deactivators: (() => void)[] = []
+
+    private detach?: () => void
+
+    private hasValue = false
+
+    private value?: T
+
+    private hasBase = false
+
+    private base?: T
+
+    private layers: RetterStateLayer<T>[] = []
+
+    private layerSequence = 0
+
+    constructor(
+        private attach: (channel: RetterStateChannel<T>) => () => void
+    ) {
+        this.subject = new Observable<T>((observer) => {
+            if (this.hasValue) observer.next(this.value!)
+        })
+    }
+
+    public get observable(): Observable<T> {
+        return this.subject
+    }
+
+    public get isAttached(): boolean {
+        return Boolean(this.detach)
+    }
+
+    public subscribe(callback: (data: T) => void) {
+        const subscription = this.subject.subscribe(callback)
+
+        this.subscriberCount++
+        if (!this.detach) this.detach = this.attach(this)
+
+        let active = true
+        const deactivate = () => {
+            if (!active) return false
+            active = false
+
+            subscription.unsubscribe()
+            this.deactivators = this.deactivators.filter(
+                (d) => d !== deactivate
+            )
+            return true
+        }
+        this.deactivators.push(deactivate)
+
+        return {
+            unsubscribe: () => {
+                if (!deactivate()) return
+
+                this.subscriberCount--
+                if (this.subscriberCount === 0) this.release()
+            },
+        }
+    }
+
+    /**
+     * Sets the authoritative value. Layers of settled updates are dropped, the
+     * snapshot is expected to include them.
+     */
+    public next(value: T): void {
+        this.base = value
+        this.hasBase = true
+
+        this.layers = this.layers.filter((layer) => {
+            if (!layer.settled) return true
+
+            if (layer.timer) clearTimeout(layer.timer)
+            return false
+        })
+
+        this.emit()
+    }
+
+    /**
+     * Applies an optimistic update on top of the current value. Returns the
+     * id of the layer, to confirm or remove it later.
+     */
+    public addLayer(apply: (value: T) => T): number {
+        const id = ++this.layerSequence
+        this.layers.push({ id, apply, settled: false })
+        this.emit()
+        return id
+    }
+
+    /**
+     * Marks the update of a layer as done on the server. The layer is kept
+     * until the next snapshot, or the timeout if no snapshot arrives.
+     * Snapshots that arrived while the update was in flight usually don't
+     * include it yet, so they don't settle the layer.
+     */
+    public confirmLayer(id: number, timeout: number): void {
+        const layer = this.layers.find((l) => l.id === id)
+        if (!layer) return
+
+        layer.settled = true
+        layer.timer = setTimeout(() => this.removeLayer(id), timeout)
+    }
+
+    public removeLayer(id: number): void {
+        const layer = this.layers.find((l) => l.id === id)
+        if (!layer) return
+
+        if (layer.timer) clearTimeout(layer.timer)
+        this.layers = this.layers.filter((l) => l !== layer)
+        this.emit()
+    }
+
+    /**
+     * Attaches the underlying listener again, e.g. after its source changed.
+     */
+    public reattach(): void {
+        if (!this.detach) return
+
+        this.release()
+        this.detach = this.attach(this)
+    }
+
+    /**
+     * Detaches the underlying listener, subscribers are kept.
+     */
+    public release(): void {
+        if (this.detach) this.detach()
+        this.detach = undefined
+    }
+
+    /**
+     * Detaches the underlying listener and completes all subscribers. Their
+     * subscriptions are closed, unsubscribing later does nothing.
+     */
+    public complete(): void {
+        this.release()
+        this.layers.map((layer) => layer.timer && clearTimeout(layer.timer))
+        this.layers = []
+        this.subject.complete()
+        this.deactivators.slice().map((deactivate) => deactivate())
+        this.subscriberCount = 0
+    }
+
+    protected emit(): void {
+        // a missing document is delivered as an empty state too
+        const base = this.hasBase ? this.base! : ({} as T)
+
+        this.value = this.layers.reduce((value, layer) => {
+            try {
+                return layer.apply(value)
+            } catch (e) {
+                return value
+            }
+        }, base)
+        this.hasValue = true
+        this.subject.next(this.value)
+    }
+}
@@ -0,0 +1,45 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { RetterStorage } from './types'
+
+/**
+ * Keeps values in memory. Useful for tests, Node environments and sessions
+ * that should not outlive the process.
+ */
+export class MemoryStorage implements RetterStorage {
+    private items: { [key: string]: string } = {}
+
+    async getItem(key: string): Promise<string | null> {
+        return Object.prototype.hasOwnProperty.call(this.items, key)
+            ? this.items[key]
+            : null
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+        this.items[key] = value
+    }
+
+    async removeItem(key: string): Promise<void> {
+        delete this.items[key]
+    }
+
+    clear(): void {
+        this.items = {}
+    }
+}
+
+/**
+ * Default storage of the SDK, backed by @react-native-async-storage.
+ */
+export class AsyncStorageAdapter implements RetterStorage {
+    async getItem(key: string): Promise<string | null> {
+        return await AsyncStorage.getItem(key)
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+        await AsyncStorage.setItem(key, value)
+    }
+
+    async removeItem(key: string): Promise<void> {
+        await AsyncStorage.removeItem(key)
+    }
+}
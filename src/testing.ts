@@ -0,0 +1,719 @@
+import axios, { AxiosAdapter, AxiosRequestConfig, AxiosResponse } from 'axios'
+import { Buffer } from 'buffer'
+import jwtDecode from 'jwt-decode'
+import { MemoryRealtimeTransport } from './realtime'
+import { MemoryStorage } from './storage'
+import {
+    RetterClientConfig,
+    RetterCloudObjectMethod,
+    RetterTokenPayload,
+} from './types'
+
+const DEFAULT_ACCESS_TOKEN_TTL = 900 // in seconds
+const DEFAULT_REFRESH_TOKEN_TTL = 86400 // in seconds
+const DEFAULT_LIST_LIMIT = 50
+
+export interface RetterFakeInstanceState {
+    public: { [key: string]: any }
+    private: { [key: string]: any }
+    user: { [userId: string]: { [key: string]: any } }
+    role: { [identity: string]: { [key: string]: any } }
+}
+
+export interface RetterFakeInstance {
+    classId: string
+    instanceId: string
+    keys: { [name: string]: string }
+    state: RetterFakeInstanceState
+}
+
+export interface RetterFakeCallContext {
+    classId: string
+    method: string
+    instanceId?: string
+    pathParams?: string
+    httpMethod: string
+    headers: { [key: string]: string }
+    queryStringParams: { [key: string]: string }
+    body: any
+    identity?: RetterTokenPayload // decoded access token of the caller
+    instance?: RetterFakeInstance // undefined for static methods
+}
+
+export interface RetterFakeResponse {
+    status?: number // default: 200
+    data?: any
+    headers?: { [key: string]: string }
+}
+
+export type RetterFakeMethodHandler = (
+    context: RetterFakeCallContext
+) => RetterFakeResponse | void | Promise<RetterFakeResponse | void>
+
+export interface RetterFakeMethod {
+    handler: RetterFakeMethodHandler
+    readonly?: boolean
+    tag?: string
+}
+
+export interface RetterFakeClass {
+    /**
+     * Runs when an instance is created, its state can be set up here.
+     */
+    init?: RetterFakeMethodHandler
+    methods?: { [name: string]: RetterFakeMethodHandler | RetterFakeMethod }
+    staticMethods?: { [name: string]: RetterFakeMethodHandler }
+}
+
+export interface RetterFakeUser {
+    userId: string
+    identity?: string
+    claims?: { [key: string]: any }
+}
+
+export interface RetterFakeFailure {
+    count?: number // default: 1
+    network?: boolean // fails without a response
+    status?: number // default: 570
+    data?: any
+    route?: string // e.g. 'CALL/Todo', 'TOKEN/refresh', default: any route
+}
+
+export interface RetterFakeRequest {
+    httpMethod: string
+    path: string
+    headers: { [key: string]: string }
+    queryStringParams: { [key: string]: string }
+    body: any
+}
+
+export interface RetterFakeBackendOptions {
+    projectId: string
+    accessTokenTtl?: number // in seconds
+    refreshTokenTtl?: number // in seconds
+    clockOffset?: number // in ms, added to the time the backend reports
+}
+
+interface RetterFakeSession {
+    user: RetterFakeUser
+    anonymous: boolean
+    accessToken: string
+    refreshToken: string
+}
+
+class RetterFakeError extends Error {
+    constructor(
+        public status: number,
+        message: string
+    ) {
+        super(message)
+        Object.setPrototypeOf(this, new.target.prototype)
+    }
+}
+
+function base64Url(value: any): string {
+    return Buffer.from(JSON.stringify(value))
+        .toString('base64')
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '')
+}
+
+function parseBody(data: any): any {
+    if (typeof data !== 'string') return data
+    try {
+        return JSON.parse(data)
+    } catch (e) {
+        return data
+    }
+}
+
+function createAxiosError(
+    message: string,
+    config: AxiosRequestConfig,
+    response?: AxiosResponse
+) {
+    return Object.assign(new Error(message), {
+        config,
+        response,
+        isAxiosError: true,
+        toJSON: () => ({ message }),
+    })
+}
+
+/**
+ * Serves a Retter project from memory, for integration tests of apps. Plug
+ * it into a client with `createClientConfig`, or pass `adapter` and
+ * `createRealtimeTransport` as `realtimeTransportFactory` to your own config.
+ */
+export class RetterFakeBackend {
+    public readonly realtimeTransports: MemoryRealtimeTransport[] = []
+
+    public readonly requests: RetterFakeRequest[] = []
+
+    public accessTokenTtl: number
+
+    public refreshTokenTtl: number
+
+    public clockOffset: number
+
+    private classes: { [classId: string]: RetterFakeClass } = {}
+
+    private instances: { [classId: string]: RetterFakeInstance[] } = {}
+
+    private customTokens: { [token: string]: RetterFakeUser } = {}
+
+    private sessions: RetterFakeSession[] = []
+
+    private failures: RetterFakeFailure[] = []
+
+    private published: { [path: string]: string } = {}
+
+    private sequence = 0
+
+    constructor(private options: RetterFakeBackendOptions) {
+        this.accessTokenTtl = options.accessTokenTtl ?? DEFAULT_ACCESS_TOKEN_TTL
+        this.refreshTokenTtl =
+            options.refreshTokenTtl ?? DEFAULT_REFRESH_TOKEN_TTL
+        this.clockOffset = options.clockOffset ?? 0
+    }
+
+    public readonly adapter: AxiosAdapter = (config) => this.handle(config)
+
+    /**
+     * Client config served by this backend, with in-memory storage.
+     */
+    public createClientConfig(
+        config: Partial<RetterClientConfig> = {}
+    ): RetterClientConfig {
+        return {
+            storage: new MemoryStorage(),
+            ...config,
+            projectId: this.options.projectId,
+            adapter: this.adapter,
+            realtimeTransportFactory: this.createRealtimeTransport,
+        }
+    }
+
+    /**
+     * Returns a new realtime transport for a session, with the published
+     * state of instances.
+     */
+    public readonly createRealtimeTransport = (): MemoryRealtimeTransport => {
+        const transport = new MemoryRealtimeTransport()
+        Object.keys(this.published).map((path) =>
+            transport.push(path, JSON.parse(this.published[path]))
+        )
+
+        this.realtimeTransports.push(transport)
+        return transport
+    }
+
+    /**
+     * Server time of the backend in ms.
+     */
+    public now(): number {
+        return Date.now() + this.clockOffset
+    }
+
+    public registerClass(classId: string, definition: RetterFakeClass): void {
+        this.classes[classId] = definition
+        if (!this.instances[classId]) this.instances[classId] = []
+    }
+
+    /**
+     * Creates an instance, or updates the state and keys of an existing one.
+     * State updates are pushed to realtime listeners.
+     */
+    public setInstance(
+        classId: string,
+        instanceId: string,
+        update: {
+            state?: Partial<RetterFakeInstanceState>
+            keys?: { [name: string]: string }
+        } = {}
+    ): RetterFakeInstance {
+        let instance = this.getInstance(classId, instanceId)
+        if (!instance) {
+            instance = this.createInstance(classId, instanceId)
+        }
+
+        instance.state = { ...instance.state, ...update.state }
+        instance.keys = { ...instance.keys, ...update.keys }
+        this.publish(instance)
+        return instance
+    }
+
+    public getInstance(
+        classId: string,
+        instanceId: string
+    ): RetterFakeInstance | undefined {
+        return (this.instances[classId] ?? []).find(
+            (instance) => instance.instanceId === instanceId
+        )
+    }
+
+    /**
+     * Pushes the current state of an instance to realtime listeners. Call it
+     * after changing `state` of an instance directly.
+     */
+    public publish(instance: RetterFakeInstance): void {
+        const path = `projects/${this.options.projectId}/classes/${instance.classId}/instances/${instance.instanceId}`
+        const documents: { [path: string]: any } = {
+            [path]: instance.state.public,
+        }
+        Object.keys(instance.state.user).map(
+            (userId) =>
+                (documents[`${path}/userState/${userId}`] =
+                    instance.state.user[userId])
+        )
+        Object.keys(instance.state.role).map(
+            (identity) =>
+                (documents[`${path}/roleState/${identity}`] =
+                    instance.state.role[identity])
+        )
+
+        Object.keys(documents).map((documentPath) => {
+            const serialized = JSON.stringify(documents[documentPath] ?? {})
+            if (this.published[documentPath] === serialized) return
+
+            this.published[documentPath] = serialized
+            this.realtimeTransports.map((transport) =>
+                transport.push(documentPath, JSON.parse(serialized))
+            )
+        })
+    }
+
+    /**
+     * Returns a custom token which signs in as the given user.
+     */
+    public createCustomToken(user: RetterFakeUser): string {
+        const token = `custom-token-${++this.sequence}`
+        this.customTokens[token] = user
+        return token
+    }
+
+    /**
+     * Makes the next matching requests fail, with a status or without a
+     * response.
+     */
+    public failNext(failure: RetterFakeFailure = {}): void {
+        this.failures.push({ count: 1, ...failure })
+    }
+
+    /**
+     * Expires all issued access tokens, so the next requests get 401 until
+     * the client refreshes them.
+     */
+    public expireAccessTokens(): void {
+        this.sessions.map((session) => (session.accessToken = ''))
+    }
+
+    /**
+     * Revokes all sessions, refreshing them fails too.
+     */
+    public revokeSessions(): void {
+        this.sessions = []
+    }
+
+    protected async handle(config: AxiosRequestConfig): Promise<AxiosResponse> {
+        if (config.signal?.aborted) throw new axios.Cancel('canceled')
+
+        const url = config.url ?? ''
+        const prefix = `/${this.options.projectId}/`
+        const index = url.indexOf(prefix)
+        const path = index === -1 ? url : url.slice(index + prefix.length - 1)
+
+        const request: RetterFakeRequest = {
+            httpMethod: (config.method ?? 'get').toLowerCase(),
+            path,
+            headers: { ...(config.headers as any) },
+            queryStringParams: { ...config.params },
+            body: parseBody(config.data),
+        }
+        if (request.queryStringParams.__isbase64 === 'true') {
+            request.body = JSON.parse(
+                Buffer.from(request.queryStringParams.data, 'base64').toString()
+            )
+        }
+        this.requests.push(request)
+
+        const failure = this.takeFailure(path)
+        if (failure?.network)
+            throw createAxiosError('Network Error', config, undefined)
+
+        let result: RetterFakeResponse
+        try {
+            result = failure
+                ? {
+                      status: failure.status ?? 570,
+                      data: failure.data ?? { message: 'Injected failure.' },
+                  }
+                : ((await this.route(request)) ?? {})
+        } catch (error) {
+            if (!(error instanceof RetterFakeError)) throw error
+            result = { status: error.status, data: { message: error.message } }
+        }
+
+        const status = result.status ?? 200
+        const response: AxiosResponse = {
+            data: result.data,
+            status,
+            statusText: String(status),
+            headers: {
+                date: new Date(this.now()).toUTCString(),
+                ...result.headers,
+            },
+            config,
+        }
+
+        const validateStatus =
+            config.validateStatus ??
+            ((code: number) => code >= 200 && code < 300)
+        if (!validateStatus(status))
+            throw createAxiosError(
+                `Request failed with status code ${status}`,
+                config,
+                response
+            )
+
+        return response
+    }
+
+    protected takeFailure(path: string): RetterFakeFailure | undefined {
+        const failure = this.failures.find(
+            (f) => !f.route || path.startsWith(`/${f.route}`)
+        )
+        if (!failure) return undefined
+
+        failure.count = (failure.count ?? 1) - 1
+        if (failure.count <= 0)
+            this.failures = this.failures.filter((f) => f !== failure)
+
+        return failure
+    }
+
+    protected async route(
+        request: RetterFakeRequest
+    ): Promise<RetterFakeResponse | void> {
+        const [route, ...segments] = request.path
+            .split('/')
+            .filter((segment) => segment.length > 0)
+
+        if (route === 'TOKEN') return this.handleToken(segments[0], request)
+
+        const identity = this.authorize(request)
+        const [classId, ...rest] = segments
+        const definition = this.classes[classId]
+        if (!definition)
+            throw new RetterFakeError(404, `Class ${classId} not found.`)
+
+        switch (route) {
+            case 'INSTANCE':
+                return this.handleInstance(classId, rest[0], request, identity)
+            case 'CALL':
+                return this.handleCall(classId, rest, request, identity)
+            case 'STATE':
+                return { data: this.findInstance(classId, rest[0]).state }
+            case 'LIST':
+                return this.handleList(classId, request)
+        }
+
+        throw new RetterFakeError(404, `Route ${request.path} not found.`)
+    }
+
+    protected handleToken(
+        action: string,
+        request: RetterFakeRequest
+    ): RetterFakeResponse {
+        switch (action) {
+            case 'auth': {
+                const user = this.customTokens[request.body?.customToken]
+                if (!user) throw new RetterFakeError(401, 'Invalid token.')
+                return { data: this.createSession(user, false) }
+            }
+            case 'anonymous': {
+                const userId = `anonymous-${++this.sequence}`
+                return {
+                    data: this.createSession(
+                        { userId, identity: 'anonymous' },
+                        true
+                    ),
+                }
+            }
+            case 'refresh': {
+                const session = this.sessions.find(
+                    (s) => s.refreshToken === request.body?.refreshToken
+                )
+                const decoded = session
+                    ? jwtDecode<RetterTokenPayload>(session.refreshToken)
+                    : undefined
+                if (!session || decoded!.exp * 1000 < this.now())
+                    throw new RetterFakeError(401, 'Invalid refresh token.')
+
+                this.sessions = this.sessions.filter((s) => s !== session)
+                return {
+                    data: this.createSession(session.user, session.anonymous),
+                }
+            }
+            case 'signOut': {
+                const token = this.getBearer(request)
+                this.sessions = this.sessions.filter(
+                    (s) => s.accessToken !== token
+                )
+                return {}
+            }
+        }
+
+        throw new RetterFakeError(404, `Route ${request.path} not found.`)
+    }
+
+    protected async handleInstance(
+        classId: string,
+        lookup: string | undefined,
+        request: RetterFakeRequest,
+        identity?: RetterTokenPayload
+    ): Promise<RetterFakeResponse> {
+        let instance: RetterFakeInstance | undefined
+        let keys: { [name: string]: string } = {}
+
+        if (lookup && lookup.indexOf('!') !== -1) {
+            const [name, value] = lookup.split('!')
+            keys = { [name]: value }
+            instance = (this.instances[classId] ?? []).find(
+                (i) => i.keys[name] === value
+            )
+        } else if (lookup) {
+            instance = this.findInstance(classId, lookup)
+        }
+
+        const newInstance = !instance
+        let response: RetterFakeResponse | void = undefined
+        if (!instance) {
+            instance = this.createInstance(classId, `${++this.sequence}`)
+            instance.keys = keys
+
+            const init = this.classes[classId].init
+            if (init) {
+                response = await init(
+                    this.getCallContext(request, identity, {
+                        classId,
+                        method: 'init',
+                        instance,
+                    })
+                )
+            }
+            this.publish(instance)
+        }
+
+        return {
+            data: {
+                instanceId: instance.instanceId,
+                newInstance,
+                methods: this.getMethods(classId),
+                response: response ? response.data : null,
+            },
+        }
+    }
+
+    protected async handleCall(
+        classId: string,
+        segments: string[],
+        request: RetterFakeRequest,
+        identity?: RetterTokenPayload
+    ): Promise<RetterFakeResponse | void> {
+        const [method, ...rest] = segments
+        const definition = this.classes[classId]
+
+        const staticMethod = definition.staticMethods?.[method]
+        if (staticMethod) {
+            return await staticMethod(
+                this.getCallContext(request, identity, {
+                    classId,
+                    method,
+                    pathParams: rest.join('/') || undefined,
+                })
+            )
+        }
+
+        const instanceMethod = definition.methods?.[method]
+        if (!instanceMethod)
+            throw new RetterFakeError(404, `Method ${method} not found.`)
+
+        const instance = this.findInstance(classId, rest[0])
+        const handler =
+            typeof instanceMethod === 'function'
+                ? instanceMethod
+                : instanceMethod.handler
+
+        const response = await handler(
+            this.getCallContext(request, identity, {
+                classId,
+                method,
+                instance,
+                pathParams: rest.slice(1).join('/') || undefined,
+            })
+        )
+        this.publish(instance)
+        return response
+    }
+
+    protected handleList(
+        classId: string,
+        request: RetterFakeRequest
+    ): RetterFakeResponse {
+        const { limit, nextToken, keyName, keyValuePrefix } =
+            request.queryStringParams
+
+        const matching = (this.instances[classId] ?? []).filter(
+            (instance) =>
+                !keyName ||
+                (typeof instance.keys[keyName] === 'string' &&
+                    instance.keys[keyName].startsWith(keyValuePrefix ?? ''))
+        )
+
+        const start = nextToken ? parseInt(nextToken, 10) : 0
+        const end = start + (limit ? parseInt(limit, 10) : DEFAULT_LIST_LIMIT)
+
+        return {
+            data: {
+                instanceIds: matching
+                    .slice(start, end)
+                    .map((instance) => instance.instanceId),
+                nextToken: end < matching.length ? `${end}` : undefined,
+            },
+        }
+    }
+
+    protected getCallContext(
+        request: RetterFakeRequest,
+        identity: RetterTokenPayload | undefined,
+        context: Pick<
+            RetterFakeCallContext,
+            'classId' | 'method' | 'instance' | 'pathParams'
+        >
+    ): RetterFakeCallContext {
+        return {
+            ...context,
+            instanceId: context.instance?.instanceId,
+            httpMethod: request.httpMethod,
+            headers: request.headers,
+            queryStringParams: request.queryStringParams,
+            body: request.body,
+            identity,
+        }
+    }
+
+    protected getMethods(classId: string): RetterCloudObjectMethod[] {
+        const methods = this.classes[classId].methods ?? {}
+        return Object.keys(methods).map((name) => {
+            const method = methods[name]
+            return typeof method === 'function'
+                ? { name }
+                : { name, readonly: method.readonly, tag: method.tag }
+        })
+    }
+
+    protected createInstance(
+        classId: string,
+        instanceId: string
+    ): RetterFakeInstance {
+        const instance: RetterFakeInstance = {
+            classId,
+            instanceId,
+            keys: {},
+            state: { public: {}, private: {}, user: {}, role: {} },
+        }
+
+        if (!this.instances[classId]) this.instances[classId] = []
+        this.instances[classId].push(instance)
+        return instance
+    }
+
+    protected findInstance(
+        classId: string,
+        instanceId?: string
+    ): RetterFakeInstance {
+        const instance = instanceId
+            ? this.getInstance(classId, instanceId)
+            : undefined
+        if (!instance)
+            throw new RetterFakeError(404, `Instance ${instanceId} not found.`)
+
+        return instance
+    }
+
+    /**
+     * Returns the caller of a request. Requests without a token are served
+     * anonymously, unknown or expired tokens are rejected.
+     */
+    protected authorize(
+        request: RetterFakeRequest
+    ): RetterTokenPayload | undefined {
+        const token = this.getBearer(request)
+        if (!token) return undefined
+
+        const session = this.sessions.find((s) => s.accessToken === token)
+        const decoded = session
+            ? jwtDecode<RetterTokenPayload>(token)
+            : undefined
+        if (!decoded || decoded.exp * 1000 < this.now())
+            throw new RetterFakeError(401, 'Access token expired.')
+
+        return decoded
+    }
+
+    protected getBearer(request: RetterFakeRequest): string | undefined {
+        const header =
+            request.headers.Authorization ?? request.headers.authorization
+        return header?.startsWith('Bearer ') ? header.slice(7) : undefined
+    }
+
+    protected createSession(user: RetterFakeUser, anonymous: boolean) {
+        const now = Math.floor(this.now() / 1000)
+        const payload = {
+            projectId: this.options.projectId,
+            userId: user.userId,
+            identity: user.identity,
+            anonymous,
+            claims: user.claims,
+            iat: now,
+        }
+
+        const session: RetterFakeSession = {
+            user,
+            anonymous,
+            accessToken: this.createToken({
+                ...payload,
+                exp: now + this.accessTokenTtl,
+            }),
+            refreshToken: this.createToken({
+                ...payload,
+                exp: now + this.refreshTokenTtl,
+                jti: ++this.sequence, // refresh tokens must be unique
+            }),
+        }
+        this.sessions.push(session)
+
+        return {
+            accessToken: session.accessToken,
+            refreshToken: session.refreshToken,
+            accessTokenExpiresAt: now + this.accessTokenTtl,
+            refreshTokenExpiresAt: now + this.refreshTokenTtl,
+            firebase: {
+                apiKey: 'fake-api-key',
+                projectId: this.options.projectId,
+                customToken: `firebase-${user.userId}`,
+            },
+        }
+    }
+
+    /**
+     * Unsigned JWT, enough for `jwtDecode`.
+     */
+    protected createToken(payload: { [key: string]: any }): string {
+        return `${base64Url({ alg: 'none', typ: 'JWT' })}.${base64Url(
+            payload
+        )}.`
+    }
+}
@@ -0,0 +1,96 @@
+import { isNetworkError } from './helpers'
+import { RetterTokenData, RetterTokenRefreshConfig } from './types'
+
+const DEFAULT_LEAD_TIME = 60 // in seconds
+const DEFAULT_RETRY_DELAY = 30 // in seconds
+const MAX_TIMEOUT = 2147483647 // in ms, setTimeout overflows above this
+
+/**
+ * Refreshes the access token ahead of its expiry, so requests after an idle
+ * period don't pay for a refresh round-trip.
+ */
+export class RetterTokenRefreshScheduler {
+    private timer?: ReturnType<typeof setTimeout>
+
+    private expiresAt?: number
+
+    private paused = false
+
+    private lifecycleUnsubscriber?: () => void
+
+    constructor(
+        private config: RetterTokenRefreshConfig,
+        private refresh: () => Promise<RetterTokenData>,
+        private serverNow: () => number = () => Date.now()
+    ) {
+        if (config.appLifecycle) {
+            this.lifecycleUnsubscriber = config.appLifecycle.subscribe(
+                (state) => {
+                    if (state === 'active') this.resume()
+                    else this.pause()
+                }
+            )
+        }
+    }
+
+    /**
+     * Plans the next refresh for the given tokens. Calling it without tokens
+     * cancels any planned refresh.
+     */
+    public schedule(tokenData?: RetterTokenData) {
+        this.expiresAt =
+            tokenData?.accessTokenDecoded?.exp ??
+            tokenData?.accessTokenExpiresAt
+        this.plan()
+    }
+
+    public pause() {
+        this.paused = true
+        this.clearTimer()
+    }
+
+    public resume() {
+        if (!this.paused) return
+        this.paused = false
+        this.plan()
+    }
+
+    public stop() {
+        this.clearTimer()
+        this.expiresAt = undefined
+        if (this.lifecycleUnsubscriber) this.lifecycleUnsubscriber()
+        this.lifecycleUnsubscriber = undefined
+    }
+
+    protected plan(delay?: number) {
+        this.clearTimer()
+        if (this.paused || !this.expiresAt) return
+
+        if (typeof delay === 'undefined') {
+            const serverNow = Math.floor(this.serverNow() / 1000)
+            const leadTime = this.config.leadTime ?? DEFAULT_LEAD_TIME
+            delay = Math.max(0, (this.expiresAt - leadTime - serverNow) * 1000)
+        }
+
+        this.timer = setTimeout(() => this.run(), Math.min(delay, MAX_TIMEOUT))
+    }
+
+    protected async run() {
+        this.timer = undefined
+
+        try {
+            // a successful refresh schedules the next one through `schedule`
+            await this.refresh()
+        } catch (error) {
+            if (!isNetworkError(error)) return
+
+            const retryDelay = this.config.retryDelay ?? DEFAULT_RETRY_DELAY
+            this.plan(retryDelay * 1000)
+        }
+    }
+
+    protected clearTimer() {
+        if (this.timer) clearTimeout(this.timer)
+        this.timer = undefined
+    }
+}
@@ -1,25 +1,163 @@
-import { AxiosResponse } from 'axios'
+import { AxiosAdapter, AxiosResponse } from 'axios'
 import { Unsubscribe } from '@firebase/util'
-import { ReplaySubject, Subscription } from 'rxjs'
 import { Observable } from './observable'
 
 // Config
 export interface RetterClientConfig {
     projectId: string
+    session?: string
     rootProjectId?: string
     url?: string
-    region?: RetterRegion
+    region?: RetterRegion | string
+    hosts?: string[] // ordered, overrides url and region
+    failover?: RetterFailoverConfig
     platform?: string
     culture?: string
     retryConfig?: RetterRetryConfig
     sslPinningEnabled?: boolean
+    storage?: RetterStorage
+    offlineQueue?: RetterOfflineQueueConfig
+    tokenRefresh?: RetterTokenRefreshConfig
+    realtimeTransport?: RetterRealtimeTransport
+    realtimeTransportFactory?: () => RetterRealtimeTransport // called for each session
+    cache?: RetterCacheConfig
+    dedupe?: RetterDedupeConfig
+    hooks?: RetterRequestHooks[]
+    clock?: RetterClockConfig
+    encryption?: RetterEncryptionConfig
+    adapter?: AxiosAdapter // replaces the http layer, e.g. with a fake backend
     [key: string]: any
 }
 
+export interface RetterStorage {
+    getItem(key: string): Promise<string | null>
+    setItem(key: string, value: string): Promise<void>
+    removeItem(key: string): Promise<void>
+}
+
+export interface RetterEncryptionConfig {
+    keyProvider: RetterKeyProvider
+    cipher?: RetterCipher // default: AES-GCM with WebCrypto
+}
+
+export interface RetterEncryptionKey {
+    id: string // stored with the data, to find the key again after rotation
+    key: ArrayBuffer | Uint8Array
+}
+
+export interface RetterKeyProvider {
+    getCurrentKey(): Promise<RetterEncryptionKey>
+    getKey(id: string): Promise<RetterEncryptionKey | undefined>
+}
+
+export interface RetterCipher {
+    algorithm: string
+    encrypt(plainText: string, key: RetterEncryptionKey): Promise<string>
+    decrypt(cipherText: string, key: RetterEncryptionKey): Promise<string>
+}
+
+export interface RetterOfflineQueueConfig {
+    enabled: boolean
+    connectivity?: RetterConnectivityMonitor
+    maxSize?: number
+}
+
+export interface RetterConnectivityMonitor {
+    isConnected(): Promise<boolean>
+    subscribe(listener: (isConnected: boolean) => void): () => void
+}
+
+export interface RetterRealtimeConfig {
+    appName: string
+    apiKey: string
+    projectId: string
+}
+
+export interface RetterRealtimeTransport {
+    connect(config: RetterRealtimeConfig): Promise<void>
+    authenticate(customToken: string): Promise<void>
+    subscribe(
+        path: string,
+        onData: (data: any) => void,
+        onError?: (error: any) => void
+    ): () => void
+    disconnect(): Promise<void>
+}
+
+export interface RetterCacheConfig {
+    enabled: boolean
+    ttl?: number // in ms
+    staleWhileRevalidate?: number // in ms
+    persist?: boolean
+    invalidateOnMutation?: boolean
+    methods?: {
+        [method: string]:
+            | { ttl?: number; staleWhileRevalidate?: number }
+            | false
+    }
+}
+
+export interface RetterDedupeConfig {
+    enabled?: boolean
+    allRequests?: boolean
+}
+
+export interface RetterTokenRefreshConfig {
+    enabled: boolean
+    leadTime?: number // seconds before expiry
+    retryDelay?: number // seconds after a failed refresh
+    appLifecycle?: RetterAppLifecycle
+}
+
+export interface RetterClockConfig {
+    smoothing?: number // weight of a new sample, between 0 and 1
+    maxJump?: number // in ms, bigger changes replace the offset directly
+}
+
+export interface RetterAppLifecycle {
+    subscribe(listener: (state: 'active' | 'background') => void): () => void
+}
+
 export interface RetterRetryConfig {
     delay?: number
     count?: number
     rate?: number
+    maxDelay?: number
+    jitter?: 'none' | 'full' | 'decorrelated'
+    retryableStatusCodes?: number[]
+    retryOnNetworkError?: boolean
+    respectRetryAfter?: boolean
+}
+
+export interface RetterRequestContext {
+    action?: RetterActions
+    classId?: string
+    method?: string
+    instanceId?: string
+    url: string
+    httpMethod: string
+    attempt: number
+    headers: { [key: string]: string } // hooks may change them in onRequest
+    queryStringParams: { [key: string]: string } // same as headers
+    startedAt: number
+    duration?: number // in ms, set once the request settles
+}
+
+export interface RetterRequestHooks {
+    onRequest?(context: RetterRequestContext): void | Promise<void>
+    onResponse?(
+        context: RetterRequestContext,
+        response: RetterCallResponse<any>
+    ): void | Promise<void>
+    onError?(
+        context: RetterRequestContext,
+        error: RetterError
+    ): void | Promise<void>
+    onRetry?(
+        context: RetterRequestContext,
+        error: RetterError,
+        delay: number
+    ): void | Promise<void>
 }
 
 export enum RetterRegion {
@@ -28,10 +166,14 @@ export enum RetterRegion {
 }
 
 export interface RetterRegionConfig {
-    id: RetterRegion
+    id: RetterRegion | string
     url: string
 }
 
+export interface RetterFailoverConfig {
+    cooldown?: number // in ms before a failed host is tried again
+}
+
 // Actions
 
 export enum RetterActions {
@@ -62,10 +204,119 @@ export interface RetterAction {
     resolve?: (r: any) => any
 }
 
+// Errors
+
+export enum RetterErrorCode {
+    UNKNOWN_ERROR = 'UNKNOWN_ERROR',
+    NETWORK_ERROR = 'NETWORK_ERROR',
+    TIMEOUT = 'TIMEOUT',
+    AUTH_ERROR = 'AUTH_ERROR',
+    CALL_ERROR = 'CALL_ERROR',
+    CONFIG_ERROR = 'CONFIG_ERROR',
+    CANCELLED = 'CANCELLED',
+    DECRYPTION_ERROR = 'DECRYPTION_ERROR',
+}
+
+export interface RetterErrorDetails {
+    action?: RetterActions
+    classId?: string
+    method?: string
+    instanceId?: string
+    status?: number
+    data?: any
+    headers?: { [key: string]: string }
+    cause?: any
+}
+
+export class RetterError extends Error {
+    code: RetterErrorCode
+    action?: RetterActions
+    classId?: string
+    method?: string
+    instanceId?: string
+    status?: number
+    data?: any
+    headers?: { [key: string]: string }
+    cause?: any
+
+    constructor(
+        code: RetterErrorCode,
+        message: string,
+        details: RetterErrorDetails = {}
+    ) {
+        super(message)
+        // keeps instanceof working when compiled to es5
+        Object.setPrototypeOf(this, new.target.prototype)
+        this.name = 'RetterError'
+        this.code = code
+        this.action = details.action
+        this.classId = details.classId
+        this.method = details.method
+        this.instanceId = details.instanceId
+        this.status = details.status
+        this.data = details.data
+        this.headers = details.headers
+        this.cause = details.cause
+    }
+}
+
+export class RetterNetworkError extends RetterError {
+    queued?: boolean
+    queueItemId?: string
+
+    constructor(message: string, details?: RetterErrorDetails) {
+        super(RetterErrorCode.NETWORK_ERROR, message, details)
+        this.name = 'RetterNetworkError'
+    }
+}
+
+export class RetterTimeoutError extends RetterError {
+    constructor(message: string, details?: RetterErrorDetails) {
+        super(RetterErrorCode.TIMEOUT, message, details)
+        this.name = 'RetterTimeoutError'
+    }
+}
+
+export class RetterAuthError extends RetterError {
+    constructor(message: string, details?: RetterErrorDetails) {
+        super(RetterErrorCode.AUTH_ERROR, message, details)
+        this.name = 'RetterAuthError'
+    }
+}
+
+export class RetterCallError extends RetterError {
+    constructor(message: string, details?: RetterErrorDetails) {
+        super(RetterErrorCode.CALL_ERROR, message, details)
+        this.name = 'RetterCallError'
+    }
+}
+
+export class RetterCancelledError extends RetterError {
+    constructor(message: string, details?: RetterErrorDetails) {
+        super(RetterErrorCode.CANCELLED, message, details)
+        this.name = 'RetterCancelledError'
+    }
+}
+
+export class RetterConfigError extends RetterError {
+    constructor(message: string, details?: RetterErrorDetails) {
+        super(RetterErrorCode.CONFIG_ERROR, message, details)
+        this.name = 'RetterConfigError'
+    }
+}
+
+export class RetterDecryptionError extends RetterError {
+    constructor(message: string, details?: RetterErrorDetails) {
+        super(RetterErrorCode.DECRYPTION_ERROR, message, details)
+        this.name = 'RetterDecryptionError'
+    }
+}
+
 // Auth
 
 export enum RetterAuthStatus {
     SIGNED_IN = 'SIGNED_IN',
+    SIGNED_IN_ANONYM = 'SIGNED_IN_ANONYM',
     SIGNED_OUT = 'SIGNED_OUT',
     AUTH_FAILED = 'AUTH_FAILED',
     CONNECTION_FAILED = 'CONNECTION_FAILED',
@@ -78,6 +329,17 @@ export interface RetterAuthChangedEvent {
     message?: string
 }
 
+export enum RetterTokenEventType {
+    TOKEN_REFRESHED = 'TOKEN_REFRESHED',
+    TOKEN_REFRESH_FAILED = 'TOKEN_REFRESH_FAILED',
+}
+
+export interface RetterTokenEvent {
+    type: RetterTokenEventType
+    expiresAt?: number
+    error?: RetterError
+}
+
 export interface RetterTokenData {
     accessToken: string
     refreshToken: string
@@ -92,6 +354,7 @@ export interface RetterTokenData {
     refreshTokenDecoded?: RetterTokenPayload
     diff?: number
     isTokenValid?: boolean
+    anonymous?: boolean
 }
 
 export interface RetterTokenPayload {
@@ -125,6 +388,21 @@ export interface RetterCloudObjectConfig {
     culture?: string
     useLocal?: boolean
     token?: string
+    retryConfig?: RetterRetryConfig
+    cache?: boolean
+    dedupe?: boolean
+    signal?: AbortSignal
+    timeout?: number // in ms
+    contentType?: string
+    bodyEncoding?: 'json' | 'base64'
+    responseType?: 'json' | 'arraybuffer' | 'blob' | 'text'
+    onProgress?: (event: RetterProgressEvent) => void
+}
+
+export interface RetterProgressEvent {
+    direction: 'upload' | 'download'
+    loaded: number
+    total?: number
 }
 
 export interface RetterCloudObject {
@@ -133,11 +411,16 @@ export interface RetterCloudObject {
     methods: RetterCloudObjectMethod[]
     response?: any
     call<T>(params: RetterCloudObjectCall): Promise<RetterCallResponse<T>>
-    listInstances(params?: RetterCloudObjectRequest): Promise<string[]>
+    listInstances(params?: RetterListInstancesParams): Promise<string[]>
+    listInstancesPage(
+        params?: RetterListInstancesParams
+    ): Promise<RetterInstancePage>
+    iterateInstances(params?: RetterListInstancesParams): AsyncIterable<string>
     getState(
         params?: RetterCloudObjectRequest
     ): Promise<RetterCallResponse<RetterCloudObjectState>>
     state?: RetterCloudObjectStates
+    dispose(): void
 }
 
 export interface RetterCloudObjectItem extends RetterCloudObject {
@@ -169,9 +452,23 @@ export type RetterCloudObjectRequest = Omit<
     'classId' | 'useLocal'
 >
 
+export interface RetterListInstancesParams extends RetterCloudObjectRequest {
+    limit?: number
+    nextToken?: string
+    keyName?: string
+    keyValuePrefix?: string
+}
+
+export interface RetterInstancePage {
+    items: string[]
+    nextToken?: string
+}
+
 export interface RetterCloudObjectCall extends RetterCloudObjectRequest {
     method: string
-    retryConfig?: RetterRetryConfig
+    readonly?: boolean // overrides the method metadata of the instance
+    queueOffline?: boolean
+    optimistic?: RetterOptimisticUpdate
 }
 
 export interface RetterCloudObjectStaticCall
@@ -179,6 +476,80 @@ export interface RetterCloudObjectStaticCall
     method: string
 }
 
+// Batch
+
+export interface RetterBatchCall
+    extends Omit<RetterCloudObjectCall, 'optimistic'> {
+    classId: string
+}
+
+export interface RetterBatchOptions {
+    concurrency?: number
+    stopOnError?: boolean
+    retryConfig?: RetterRetryConfig
+    signal?: AbortSignal
+    onProgress?: (progress: RetterBatchProgress) => void
+}
+
+export interface RetterBatchProgress {
+    total: number
+    completed: number
+    failed: number
+}
+
+export type RetterBatchResult<T = any> =
+    | { status: 'fulfilled'; value: RetterCallResponse<T> }
+    | { status: 'rejected'; reason: RetterError }
+
+// Offline Queue
+
+export enum RetterOfflineQueueEventType {
+    QUEUED = 'QUEUED',
+    SUCCEEDED = 'SUCCEEDED',
+    FAILED = 'FAILED',
+    DISCARDED = 'DISCARDED',
+}
+
+export interface RetterOfflineQueueItem {
+    id: string
+    classId: string
+    instanceId: string
+    params: RetterCloudObjectCall
+    createdAt: number
+}
+
+export interface RetterOfflineQueueEvent {
+    type: RetterOfflineQueueEventType
+    pendingCount: number
+    item: RetterOfflineQueueItem
+    response?: RetterCallResponse<any>
+    error?: any
+}
+
+// Optimistic Updates
+
+export type RetterStateChannelName = 'public' | 'user' | 'role'
+
+export interface RetterOptimisticUpdate<T = { [key: string]: any }> {
+    channel: RetterStateChannelName
+    patch: Partial<T> // shallow merged into the state
+    reconcileTimeout?: number // in ms to wait for the snapshot, default: 3000
+}
+
+export enum RetterOptimisticEventType {
+    CONFIRMED = 'CONFIRMED',
+    ROLLED_BACK = 'ROLLED_BACK',
+}
+
+export interface RetterOptimisticEvent {
+    type: RetterOptimisticEventType
+    classId: string
+    instanceId: string
+    method: string
+    channel: RetterStateChannelName
+    error?: RetterError
+}
+
 interface RetterCloudObjectStates {
     role: RetterCloudObjectStateObservable
     user: RetterCloudObjectStateObservable
@@ -186,7 +557,7 @@ interface RetterCloudObjectStates {
 }
 
 interface RetterCloudObjectStateObservable {
-    queue?: Observable<any>
+    observable?: Observable<any>
     subscribe: (state?: any | undefined) => {
         unsubscribe: () => void
     }